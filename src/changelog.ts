@@ -0,0 +1,152 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  type ConventionalCommit,
+  parseConventionalCommit,
+} from './conventional.js';
+import { type GitCommit, getCommitsSince } from './git.js';
+import type { DiscoveredPackage } from './types.js';
+
+const CHANGELOG_HEADER = '# Changelog';
+
+function formatEntry(commit: ConventionalCommit): string {
+  const scope = commit.scope ? `**${commit.scope}:** ` : '';
+  return `- ${scope}${commit.description} (${commit.hash.slice(0, 7)})`;
+}
+
+/**
+ * Render the markdown body for a release, grouped into breaking changes,
+ * features and fixes. Commits that are not `feat` or `fix` (and not
+ * breaking) are left out.
+ */
+export function renderReleaseNotes(commits: GitCommit[]): string {
+  const parsed = commits
+    .map(parseConventionalCommit)
+    .filter((c): c is ConventionalCommit => c !== null);
+
+  const groups: [string, ConventionalCommit[]][] = [
+    ['Breaking Changes', parsed.filter((c) => c.breaking)],
+    ['Features', parsed.filter((c) => !c.breaking && c.type === 'feat')],
+    ['Fixes', parsed.filter((c) => !c.breaking && c.type === 'fix')],
+  ];
+
+  const sections = groups
+    .filter(([, entries]) => entries.length > 0)
+    .map(
+      ([title, entries]) =>
+        `### ${title}\n\n${entries.map(formatEntry).join('\n')}`,
+    );
+
+  return sections.length > 0 ? sections.join('\n\n') : 'No notable changes.';
+}
+
+export function renderChangelogSection(
+  heading: string,
+  date: Date,
+  commits: GitCommit[],
+): string {
+  const day = date.toISOString().slice(0, 10);
+  return `## ${heading} (${day})\n\n${renderReleaseNotes(commits)}\n`;
+}
+
+/**
+ * Insert a section at the top of a changelog, below its title. The file is
+ * created if it does not exist.
+ */
+export async function prependChangelog(
+  path: string,
+  section: string,
+  dryRun: boolean,
+): Promise<void> {
+  if (dryRun) {
+    console.log(`  [DRY RUN] Would add to ${path}:`);
+    console.log('');
+    for (const line of section.trimEnd().split('\n')) {
+      console.log(`    ${line}`);
+    }
+    console.log('');
+    return;
+  }
+
+  let existing = '';
+  try {
+    existing = await readFile(path, 'utf-8');
+  } catch {
+    // No changelog yet
+  }
+
+  const newlineIndex = existing.indexOf('\n');
+  const firstLine =
+    newlineIndex === -1 ? existing : existing.slice(0, newlineIndex);
+
+  let content: string;
+  if (firstLine.startsWith('# ')) {
+    // Keep the existing title, and put the new section above older ones
+    const rest = existing.slice(firstLine.length).replace(/^\s+/, '');
+    content = `${firstLine}\n\n${section}${rest ? `\n${rest}` : ''}`;
+  } else if (existing) {
+    content = `${section}\n${existing}`;
+  } else {
+    content = `${CHANGELOG_HEADER}\n\n${section}`;
+  }
+
+  await writeFile(path, content);
+  console.log(`  Updated ${path}`);
+}
+
+/**
+ * Add a section for each released package to the changelog(s).
+ *
+ * With `root` placement a single CHANGELOG.md at `cwd` is used; in fixed
+ * mode it gets one section for the shared version, in independent mode one
+ * per package. With `package` placement each package gets its own file.
+ */
+export async function updateChangelogs(
+  packages: DiscoveredPackage[],
+  placement: 'root' | 'package',
+  independent: boolean,
+  lastTag: (pkg: DiscoveredPackage) => string | null,
+  cwd: string,
+  dryRun: boolean,
+): Promise<void> {
+  if (packages.length === 0) return;
+
+  const date = new Date();
+
+  if (placement === 'package') {
+    for (const pkg of packages) {
+      const commits = await getCommitsSince(lastTag(pkg), [pkg.path], cwd);
+      await prependChangelog(
+        join(pkg.path, 'CHANGELOG.md'),
+        renderChangelogSection(pkg.version, date, commits),
+        dryRun,
+      );
+    }
+    return;
+  }
+
+  const rootChangelog = join(cwd, 'CHANGELOG.md');
+
+  if (!independent) {
+    const commits = await getCommitsSince(
+      lastTag(packages[0]),
+      packages.map((p) => p.path),
+      cwd,
+    );
+    await prependChangelog(
+      rootChangelog,
+      renderChangelogSection(packages[0].version, date, commits),
+      dryRun,
+    );
+    return;
+  }
+
+  const sections: string[] = [];
+  for (const pkg of packages) {
+    const commits = await getCommitsSince(lastTag(pkg), [pkg.path], cwd);
+    sections.push(
+      renderChangelogSection(`${pkg.name}@${pkg.version}`, date, commits),
+    );
+  }
+  await prependChangelog(rootChangelog, sections.join('\n'), dryRun);
+}
@@ -0,0 +1,41 @@
+import { findLastTag, getChangedFiles } from './git.js';
+import type { DiscoveredPackage } from './types.js';
+
+export interface PackageChanges {
+  /** Last release tag for the package, or null if it was never released */
+  lastTag: string | null;
+  changed: boolean;
+  changedFiles: string[];
+}
+
+/**
+ * Compare each package directory against its last release tag.
+ *
+ * `tagPattern` returns the glob used to find a package's release tags. A
+ * package without a matching tag is always considered changed.
+ */
+export async function detectChanges(
+  packages: DiscoveredPackage[],
+  tagPattern: (pkg: DiscoveredPackage) => string,
+  cwd: string,
+): Promise<Map<string, PackageChanges>> {
+  const changes = new Map<string, PackageChanges>();
+
+  for (const pkg of packages) {
+    const lastTag = await findLastTag(tagPattern(pkg), cwd);
+
+    if (!lastTag) {
+      changes.set(pkg.name, { lastTag, changed: true, changedFiles: [] });
+      continue;
+    }
+
+    const changedFiles = await getChangedFiles(lastTag, pkg.path, cwd);
+    changes.set(pkg.name, {
+      lastTag,
+      changed: changedFiles.length > 0,
+      changedFiles,
+    });
+  }
+
+  return changes;
+}
@@ -1,29 +1,101 @@
 #!/usr/bin/env node
 
+import { join, relative } from 'node:path';
+import { renderReleaseNotes, updateChangelogs } from './changelog.js';
+import { detectChanges } from './changes.js';
+import { bold, cyan, dim, green, muted, red, yellow } from './colors.js';
+import { runConcurrently } from './concurrency.js';
+import { loadConfig, resolveOptions } from './config.js';
+import { type BumpRecommendation, recommendBump } from './conventional.js';
 import {
-  bold,
-  cyan,
-  dim,
-  green,
-  muted,
-  red,
-  yellow,
-} from './colors.js';
-import { discoverPackages, sortByDependencyOrder } from './discovery.js';
-import { closePrompt, confirm, multiSelect, prompt, select } from './prompts.js';
+  discoverPackages,
+  findDependencyCycles,
+  findRootPackageJson,
+  findWorkspaceSources,
+  groupByDependencyLevel,
+  readPackageJson,
+  sortByDependencyOrder,
+} from './discovery.js';
+import {
+  findExistingTag,
+  findLastTag,
+  getCommitsSince,
+  getCurrentBranch,
+  getHeadCommit,
+  getRemoteUrl,
+  getUpstreamStatus,
+  restoreFiles,
+} from './git.js';
+import { matchPath } from './glob.js';
+import {
+  type HookContext,
+  type HookResult,
+  runHook,
+  toHookPackage,
+} from './hooks.js';
+import {
+  type ReleaseJournal,
+  STATE_DIR,
+  clearJournal,
+  createJournal,
+  readJournal,
+  setPackageStatus,
+  writeJournal,
+} from './journal.js';
+import { type Npmrc, getAuthHeader, loadNpmrc } from './npmrc.js';
+import { closePrompt, confirm, input, multiSelect, select } from './prompts.js';
 import {
   commitVersionBump,
   createGitTag,
+  describePublishTarget,
+  formatTag,
+  getDistTags,
+  getWorkspaceResolutions,
   hasUncommittedChanges,
+  isPerPackageTagFormat,
+  packPackage,
   publishPackage,
-  pushGitTag,
+  pushRelease,
+  resolvePublishTarget,
+  resolveTagFormat,
   runBuild,
   verifyBuild,
 } from './publish.js';
-import type { PublishOptions, VersionBumpType } from './types.js';
 import {
+  checkPublishRights,
+  checkRegistryVersion,
+  whoami,
+} from './registry.js';
+import { createRelease, parseRepoPath } from './release.js';
+import {
+  attachReport,
+  beginStep,
+  completeReport,
+  createReport,
+  setReportPackageStatus,
+} from './report.js';
+import { diffSemver, isPrerelease } from './semver.js';
+import { findSuspiciousFiles, formatSize, parseSize } from './tarball.js';
+import type {
+  ChangelogMode,
+  CycleMode,
+  DiscoveredPackage,
+  HooksConfig,
+  PackageHookName,
+  PublishAccess,
+  PublishOptions,
+  PublishTarget,
+  ReleaseMode,
+  ReportRelease,
+  VersionBumpType,
+} from './types.js';
+import {
+  BUMP_TYPES,
   bumpVersion,
+  isBumpType,
+  parseVersionMap,
   previewBump,
+  resolveVersion,
   updateLocalDependencyVersions,
   updatePackageVersion,
 } from './version.js';
@@ -38,36 +110,122 @@ function printUsage() {
 pubz - Interactive npm package publisher
 
 Usage: pubz [options]
+       pubz list              List discovered packages and where they came from
 
 Options:
   --dry-run              Show what would be published without actually publishing
   --registry <url>       Specify npm registry URL (default: public npm)
+  --access <level>       Access for packages without publishConfig.access: public|restricted (default: public)
   --otp <code>           One-time password for 2FA
   --skip-build           Skip the build step
+  --resume               Continue an unfinished release from ${STATE_DIR}/state.json
   --yes, -y              Skip yes/no confirmation prompts (still asks for choices)
   --ci                   CI mode: skip all prompts, auto-accept everything
-  --version <value>      Version bump type (patch|minor|major) or explicit version (required with --ci)
+  --version <value>      Version bump type or explicit version (required with --ci)
+                         Bump types: patch|minor|major|prepatch|preminor|premajor|prerelease|auto
+                         "auto" picks the bump from Conventional Commits since the last release tag
+                         With --independent, also accepts a per-package map: pkg-a=minor,pkg-b=1.2.3
+  --tag <name>           npm dist-tag to publish under (default: latest, or next for prereleases)
+  --preid <id>           Prerelease identifier for pre* bumps (e.g. alpha, beta, rc)
+  --independent          Version each package separately instead of sharing one version
+  --changed-only         Only publish packages with changes since their last release tag
+  --changelog <mode>     Where to write CHANGELOG.md: auto|root|package|off (default: auto)
+  --cycles <mode>        How to treat circular dependencies: error|warn (default: warn)
+  --concurrency <n>      Publish up to n packages at a time (default: 1)
+  --max-package-size <size>
+                         Fail when a package tarball is larger than this (e.g. 5MB)
+  --allow-pack-warnings  Publish despite size or suspicious file warnings with --ci/--yes
+  --tag-format <format>  Git tag template with {name} and {version}
+                         (default: v{version}, or {name}@{version} with --independent)
+  --tag-message <msg>    Create annotated tags with this message ({tag} is the tag name)
+  --sign-tags            Create signed tags (GPG or SSH, per git's gpg.format)
+  --branches <list>      Only release from these branches (comma-separated, globs allowed)
+  --no-git-checks        Skip the branch, remote and upstream checks
+  --release <provider>   Create a release for each pushed tag: github|gitlab|off (default: off)
+  --release-api-url <url>
+                         API base URL for releases (e.g. a GitHub Enterprise or GitLab host)
+  --json                 Print a JSON release report to stdout (logs go to stderr)
+  --report <file>        Write the JSON release report to a file
   -h, --help             Show this help message
 
+Configuration:
+  Defaults for any option can be set in pubz.config.json or under the "pubz"
+  key in package.json. CLI flags take precedence over config values.
+
 Examples:
   pubz                                           # Interactive publish
   pubz --dry-run                                 # Preview what would happen
   pubz --registry https://npm.pkg.github.com    # Publish to GitHub Packages
   pubz --ci --version patch                      # CI mode with patch bump
   pubz --ci --version 1.2.3                      # CI mode with explicit version
+  pubz --ci --version auto                       # CI mode, bump from Conventional Commits
+  pubz --ci --version prerelease --preid rc      # Cut a release candidate (1.2.0 -> 1.2.1-rc.0)
+  pubz --ci --independent --version a=minor,b=patch  # Independent versions in CI
 `);
 }
 
-function parseArgs(args: string[]): PublishOptions & { help: boolean } {
-  const options: PublishOptions & { help: boolean } = {
-    dryRun: false,
-    registry: '',
-    otp: '',
-    skipBuild: false,
-    skipConfirms: false,
-    ci: false,
-    version: '',
+async function selectBumpType(
+  message: string,
+  currentVersion: string,
+  allowNone: boolean,
+  preid: string,
+  recommended?: VersionBumpType,
+): Promise<VersionBumpType> {
+  const options = BUMP_TYPES.map((type) => ({
+    label: `${type} (${previewBump(currentVersion, type, preid)})${type === recommended ? green(' (recommended)') : ''}`,
+    value: type,
+  }));
+  if (allowNone) {
+    options.push({ label: `none (keep ${currentVersion})`, value: 'none' });
+  }
+  const defaultIndex = Math.max(
+    0,
+    options.findIndex((o) => o.value === recommended),
+  );
+  return select<VersionBumpType>(message, options, defaultIndex, '--version');
+}
+
+function printRecommendation(recommendation: BumpRecommendation) {
+  const { bumpType, reasons } = recommendation;
+
+  if (bumpType === 'none') {
+    console.log(muted('No commits since the last release'));
+    return;
+  }
+
+  if (reasons.length === 0) {
+    console.log(
+      muted(`No feat/fix/breaking commits found, recommending ${bumpType}`),
+    );
+    return;
+  }
+
+  console.log(
+    `Recommended bump: ${green(bold(bumpType))} ${muted(`(based on ${reasons.length} commit(s))`)}`,
+  );
+  for (const commit of reasons.slice(0, 10)) {
+    console.log(
+      `  ${dim('•')} ${commit.subject} ${dim(commit.hash.slice(0, 7))}`,
+    );
+  }
+  if (reasons.length > 10) {
+    console.log(dim(`  ... and ${reasons.length - 10} more`));
+  }
+}
+
+type CliArgs = Partial<PublishOptions> & {
+  help: boolean;
+  command: 'publish' | 'list';
+};
+
+/**
+ * Parse CLI flags. Only flags that were actually passed are set, so they can
+ * be layered over config file defaults.
+ */
+function parseArgs(args: string[]): CliArgs {
+  const options: CliArgs = {
     help: false,
+    command: 'publish',
   };
 
   for (let i = 0; i < args.length; i++) {
@@ -80,6 +238,9 @@ function parseArgs(args: string[]): PublishOptions & { help: boolean } {
       case '--registry':
         options.registry = args[++i] || '';
         break;
+      case '--access':
+        options.access = args[++i] as PublishAccess;
+        break;
       case '--otp':
         options.otp = args[++i] || '';
         break;
@@ -96,69 +257,635 @@ function parseArgs(args: string[]): PublishOptions & { help: boolean } {
       case '--version':
         options.version = args[++i] || '';
         break;
+      case '--resume':
+        options.resume = true;
+        break;
+      case '--tag':
+        options.tag = args[++i] || '';
+        break;
+      case '--preid':
+        options.preid = args[++i] || '';
+        break;
+      case '--independent':
+        options.independent = true;
+        break;
+      case '--changed-only':
+        options.changedOnly = true;
+        break;
+      case '--changelog':
+        options.changelog = args[++i] as ChangelogMode;
+        break;
+      case '--cycles':
+        options.cycles = args[++i] as CycleMode;
+        break;
+      case '--concurrency':
+        options.concurrency = Number(args[++i]);
+        break;
+      case '--max-package-size':
+        options.maxPackageSize = args[++i] || '';
+        break;
+      case '--allow-pack-warnings':
+        options.allowPackWarnings = true;
+        break;
+      case '--tag-format':
+        options.tagFormat = args[++i] || '';
+        break;
+      case '--tag-message':
+        options.tagMessage = args[++i] || '';
+        break;
+      case '--sign-tags':
+        options.signTags = true;
+        break;
+      case '--branches':
+        options.branches = (args[++i] || '')
+          .split(',')
+          .map((branch) => branch.trim())
+          .filter(Boolean);
+        break;
+      case '--no-git-checks':
+        options.gitChecks = false;
+        break;
+      case '--release':
+        options.release = args[++i] as ReleaseMode;
+        break;
+      case '--release-api-url':
+        options.releaseApiUrl = args[++i] || '';
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      case '--report':
+        options.report = args[++i] || '';
+        break;
       case '-h':
       case '--help':
         options.help = true;
         break;
+      case 'list':
+        options.command = 'list';
+        break;
     }
   }
 
   return options;
 }
 
-async function main() {
-  const options = parseArgs(process.argv.slice(2));
+/**
+ * `pubz list`: show the workspace sources found and the packages discovered
+ * from them, to debug missing packages.
+ */
+async function listPackages(cwd: string) {
+  const rootPackageJsonPath = await findRootPackageJson(cwd);
+  if (!rootPackageJsonPath) {
+    throw new Error('No package.json found in current directory');
+  }
 
-  if (options.help) {
-    printUsage();
-    process.exit(0);
+  const rootPackageJson = await readPackageJson(rootPackageJsonPath);
+  const sources = await findWorkspaceSources(cwd, rootPackageJson);
+
+  console.log(`${bold('Workspace sources')} ${dim('(first match is used)')}`);
+  console.log('');
+  if (sources.length === 0) {
+    console.log(
+      muted('  None found, falling back to packages/ or the root package'),
+    );
+  }
+  for (const [index, { source, patterns }] of sources.entries()) {
+    const marker = index === 0 ? green('✓') : dim('-');
+    const ignored = index === 0 ? '' : muted(' (ignored)');
+    console.log(`  ${marker} ${source} ${dim(patterns.join(', '))}${ignored}`);
   }
+  console.log('');
 
-  // CI mode validation
-  if (options.ci && !options.version) {
-    console.error(red(bold('Error:')) + ' --ci requires --version to be specified');
-    console.log('');
-    console.log(muted('Examples:'));
-    console.log(muted('  pubz --ci --version patch'));
-    console.log(muted('  pubz --ci --version minor'));
-    console.log(muted('  pubz --ci --version major'));
-    console.log(muted('  pubz --ci --version 1.2.3'));
+  const packages = await discoverPackages(cwd);
+
+  console.log(bold(`Packages (${packages.length})`));
+  console.log('');
+  for (const pkg of packages) {
+    const path = relative(cwd, pkg.path) || '.';
+    const privateLabel = pkg.isPrivate ? yellow(' private') : '';
+    console.log(
+      `  ${dim('•')} ${cyan(pkg.name)}${dim('@')}${yellow(pkg.version)} ${dim(path)} ${muted(`from ${pkg.source}`)}${privateLabel}`,
+    );
+  }
+}
+
+/**
+ * Report circular dependencies between packages. In `error` mode the
+ * release stops; otherwise one edge of each cycle is ignored when ordering.
+ */
+function checkDependencyCycles(packages: DiscoveredPackage[], mode: CycleMode) {
+  const cycles = findDependencyCycles(packages);
+  if (cycles.length === 0) return;
+
+  const label = mode === 'error' ? red(bold('Error:')) : yellow('Warning:');
+  console.error(`${label} Circular dependencies found:`);
+  for (const cycle of cycles) {
+    console.log(`  ${cycle.map((name) => cyan(name)).join(dim(' → '))}`);
+  }
+  console.log('');
+
+  if (mode === 'error') {
+    console.log(
+      muted('Break the cycle, or use --cycles warn to publish anyway.'),
+    );
+    closePrompt();
     process.exit(1);
   }
 
-  // Helper to check if we should skip confirmations
-  const skipConfirms = options.skipConfirms || options.ci;
-  // Helper to check if we should skip all prompts (including selections)
-  const skipAllPrompts = options.ci;
+  console.log(muted('The order within a cycle is arbitrary.'));
+  console.log('');
+}
 
-  const cwd = process.cwd();
+/**
+ * Check that the `.npmrc` credentials work for every target registry and
+ * that the user may publish each package. Problems need an interactive
+ * confirmation and stop the release with --ci or --yes; a dry run only
+ * reports them. Registries that cannot answer are skipped with a note.
+ */
+async function checkAuthentication(
+  packages: DiscoveredPackage[],
+  targets: Map<string, PublishTarget>,
+  npmrc: Npmrc,
+  options: PublishOptions,
+) {
+  if (packages.length === 0) return;
+
+  const byRegistry = new Map<string, DiscoveredPackage[]>();
+  for (const pkg of packages) {
+    const registry = targets.get(pkg.name)?.registry ?? '';
+    byRegistry.set(registry, [...(byRegistry.get(registry) ?? []), pkg]);
+  }
 
-  if (options.dryRun) {
-    console.log(yellow(bold('DRY RUN MODE')) + dim(' - No actual changes will be made'));
-    console.log('');
+  // Trusted publishing exchanges a CI identity token for credentials at
+  // publish time, so there is no token to check beforehand
+  const usesOidc = Boolean(
+    process.env.ACTIONS_ID_TOKEN_REQUEST_URL || process.env.NPM_ID_TOKEN,
+  );
+  const problems: string[] = [];
+
+  console.log(cyan('Checking authentication...'));
+  console.log('');
+
+  for (const [registry, registryPackages] of byRegistry) {
+    if (!getAuthHeader(npmrc, registry)) {
+      if (usesOidc) {
+        console.log(
+          `  ${dim('•')} ${registry} ${muted('no token, using trusted publishing (OIDC)')}`,
+        );
+      } else {
+        problems.push(
+          `Not logged in to ${registry}. Run npm login --registry ${registry}`,
+        );
+      }
+      continue;
+    }
+
+    let username: string | null;
+    try {
+      username = await whoami(registry, npmrc);
+    } catch (error) {
+      console.log(
+        `  ${yellow('!')} ${registry} ${yellow(`could not be checked: ${(error as Error).message}`)}`,
+      );
+      continue;
+    }
+    if (!username) {
+      // setup-node writes a placeholder token even for trusted publishing
+      if (usesOidc) {
+        console.log(
+          `  ${dim('•')} ${registry} ${muted('token rejected, using trusted publishing (OIDC)')}`,
+        );
+      } else {
+        problems.push(
+          `The token for ${registry} was rejected. Run npm login --registry ${registry}`,
+        );
+      }
+      continue;
+    }
+    console.log(`  ${green('✓')} ${registry} as ${cyan(username)}`);
+
+    for (const pkg of registryPackages) {
+      try {
+        const rights = await checkPublishRights(
+          pkg.name,
+          username,
+          registry,
+          npmrc,
+        );
+        if (rights.status === 'denied') {
+          problems.push(`Cannot publish ${pkg.name}: ${rights.reason}`);
+        }
+      } catch (error) {
+        console.log(
+          `  ${yellow('!')} ${pkg.name}: ${yellow((error as Error).message)}`,
+        );
+      }
+    }
   }
+  console.log('');
 
-  console.log(bold('pubz') + dim(' - npm package publisher'));
-  console.log(dim('═'.repeat(30)));
+  if (problems.length === 0) return;
+
+  const label = options.dryRun ? yellow(bold('Warning:')) : red(bold('Error:'));
+  for (const problem of problems) {
+    console.error(`${label} ${problem}`);
+  }
   console.log('');
 
-  // Check for uncommitted changes
-  const uncommitted = await hasUncommittedChanges(cwd);
-  if (uncommitted.hasChanges && !options.dryRun) {
-    console.log(red(bold('Error:')) + ' You have uncommitted changes:');
-    console.log('');
-    for (const file of uncommitted.files.slice(0, 10)) {
-      console.log(`  ${yellow(file)}`);
+  if (options.dryRun) return;
+
+  if (options.skipConfirms || options.ci) {
+    closePrompt();
+    process.exit(1);
+  }
+
+  const shouldContinue = await confirm('Publish anyway?', false, null);
+  if (!shouldContinue) {
+    console.log(yellow('Publish cancelled.'));
+    closePrompt();
+    process.exit(0);
+  }
+  console.log('');
+}
+
+/**
+ * Show what each package's tarball contains, and check it against the size
+ * budget and for files that look like secrets. Problems need an interactive
+ * confirmation, and stop the release with --ci or --yes unless
+ * --allow-pack-warnings is set.
+ */
+async function inspectTarballs(
+  packages: DiscoveredPackage[],
+  targets: Map<string, PublishTarget>,
+  options: PublishOptions,
+) {
+  if (packages.length === 0) return;
+
+  const skipConfirms = options.skipConfirms || options.ci;
+  const budget = options.maxPackageSize
+    ? parseSize(options.maxPackageSize)
+    : null;
+  const problems: string[] = [];
+
+  console.log(cyan('Inspecting package contents...'));
+  console.log('');
+
+  for (const pkg of packages) {
+    const directory = targets.get(pkg.name)?.directory ?? pkg.path;
+    const result = await packPackage(pkg, directory);
+    if (!result.success || !result.tarball) {
+      // A publish directory may only be created by the build, which a dry
+      // run skips
+      if (options.dryRun) {
+        console.log(`  ${yellow('!')} ${yellow(result.error ?? '')}`);
+        continue;
+      }
+      console.error(`${red(bold('Error:'))} ${result.error}`);
+      closePrompt();
+      process.exit(1);
     }
-    if (uncommitted.files.length > 10) {
-      console.log(dim(`  ... and ${uncommitted.files.length - 10} more`));
+
+    const { files, size, unpackedSize } = result.tarball;
+    console.log(
+      `  ${cyan(pkg.name)} ${dim(`${files.length} file(s), ${formatSize(size)} packed, ${formatSize(unpackedSize)} unpacked`)}`,
+    );
+    for (const file of files) {
+      console.log(
+        muted(`      ${formatSize(file.size).padStart(9)}  ${file.path}`),
+      );
     }
-    console.log('');
-    console.log(muted('Please commit or stash your changes before publishing.'));
+
+    if (budget !== null && size > budget) {
+      problems.push(
+        `${pkg.name} is ${formatSize(size)} packed, over the ${options.maxPackageSize} budget`,
+      );
+    }
+    for (const file of await findSuspiciousFiles(directory, files)) {
+      problems.push(`${pkg.name}: ${file.path} (${file.reason})`);
+    }
+  }
+  console.log('');
+
+  if (problems.length === 0) return;
+
+  console.log(
+    `${yellow(bold('Warning:'))} problems found in package contents:`,
+  );
+  for (const problem of problems) {
+    console.log(`  ${dim('•')} ${problem}`);
+  }
+  console.log('');
+
+  if (options.dryRun || options.allowPackWarnings) return;
+
+  if (skipConfirms) {
+    console.error(
+      `${red(bold('Error:'))} Refusing to publish with package content warnings.`,
+    );
+    console.log(
+      muted(
+        'Fix the "files" field or .npmignore, or pass --allow-pack-warnings.',
+      ),
+    );
     closePrompt();
     process.exit(1);
   }
 
+  const shouldContinue = await confirm(
+    'Publish anyway?',
+    false,
+    '--allow-pack-warnings',
+  );
+  if (!shouldContinue) {
+    console.log(yellow('Publish cancelled.'));
+    closePrompt();
+    process.exit(0);
+  }
+  console.log('');
+}
+
+/**
+ * Stop without publishing when `--version auto` finds no commits to release.
+ */
+function exitNothingToRelease(): never {
+  console.log(yellow('Nothing to release: no commits since the last release.'));
+  closePrompt();
+  process.exit(0);
+}
+
+/**
+ * Tag names for a release. Only packages that get a new version are tagged,
+ * since the others were tagged when their version was released; a template
+ * without `{name}` gives one tag for the whole release.
+ */
+function planTagNames(
+  packages: DiscoveredPackage[],
+  newVersions: Map<string, string>,
+  tagFormat: string,
+): string[] {
+  const withNewVersion = (pkg: DiscoveredPackage) => ({
+    name: pkg.name,
+    version: newVersions.get(pkg.name) ?? pkg.version,
+  });
+
+  if (newVersions.size === 0) return [];
+
+  if (!isPerPackageTagFormat(tagFormat)) {
+    return [formatTag(tagFormat, withNewVersion(packages[0]))];
+  }
+
+  return packages
+    .filter((pkg) => newVersions.has(pkg.name))
+    .map((pkg) => formatTag(tagFormat, withNewVersion(pkg)));
+}
+
+/**
+ * Stop before anything is changed or published if a planned tag already
+ * exists locally or on origin. In a dry run this is only a warning.
+ */
+async function checkExistingTags(
+  tagNames: string[],
+  cwd: string,
+  dryRun: boolean,
+) {
+  const existing: string[] = [];
+  for (const tagName of tagNames) {
+    const tag = await findExistingTag(tagName, cwd);
+    if (tag) {
+      existing.push(
+        `${cyan(tagName)} ${dim(`(${tag.location}, at ${tag.commit.slice(0, 7)})`)}`,
+      );
+    }
+  }
+  if (existing.length === 0) return;
+
+  const label = dryRun ? yellow(bold('Warning:')) : red(bold('Error:'));
+  console.error(`${label} These tags already exist:`);
+  for (const tag of existing) {
+    console.log(`  ${dim('•')} ${tag}`);
+  }
+  console.log('');
+
+  if (dryRun) return;
+
+  console.log(
+    muted('Bump to a new version, or delete the tags if they are stale.'),
+  );
+  closePrompt();
+  process.exit(1);
+}
+
+/**
+ * Create a GitHub or GitLab release for each pushed tag, with the release
+ * notes of the commits since the previous tag.
+ */
+async function createReleases(
+  tagNames: string[],
+  packages: DiscoveredPackage[],
+  options: PublishOptions,
+  cwd: string,
+): Promise<ReportRelease[]> {
+  if (options.release === 'off' || tagNames.length === 0) return [];
+
+  const provider = options.release;
+  const label = provider === 'github' ? 'GitHub' : 'GitLab';
+  const tagFormat = resolveTagFormat(options.tagFormat, options.independent);
+
+  console.log(cyan(`Creating ${label} release(s)...`));
+
+  const remoteUrl = await getRemoteUrl('origin', cwd);
+  const repo = remoteUrl ? parseRepoPath(remoteUrl) : null;
+  if (!repo) {
+    const error = 'Could not determine the repository from the origin remote';
+    console.error(red(`  ${error}`));
+    console.log('');
+    return tagNames.map((tag) => ({ tag, url: null, error }));
+  }
+
+  const releases: ReportRelease[] = [];
+  for (const tagName of tagNames) {
+    const tagPackages = isPerPackageTagFormat(tagFormat)
+      ? packages.filter((pkg) => formatTag(tagFormat, pkg) === tagName)
+      : packages;
+    if (tagPackages.length === 0) continue;
+
+    // Before the tag exists (dry run), the notes run up to HEAD
+    const until = options.dryRun ? 'HEAD' : tagName;
+    const previousTag = await findLastTag(
+      formatTag(tagFormat, { name: tagPackages[0].name, version: '*' }),
+      cwd,
+      options.dryRun ? 'HEAD' : `${tagName}^`,
+    );
+    const commits = await getCommitsSince(
+      previousTag,
+      tagPackages.map((pkg) => pkg.path),
+      cwd,
+      until,
+    );
+    const prerelease = isPrerelease(tagPackages[0].version);
+
+    if (options.dryRun) {
+      console.log(
+        `  [DRY RUN] Would create ${label} release ${tagName}${prerelease ? ' (prerelease)' : ''} in ${repo}`,
+      );
+      continue;
+    }
+
+    const result = await createRelease(
+      provider,
+      {
+        tagName,
+        name: tagName,
+        body: renderReleaseNotes(commits),
+        prerelease,
+      },
+      { apiUrl: options.releaseApiUrl, repo },
+    );
+    if (result.success) {
+      console.log(`  ${green('✓')} ${tagName} ${dim(result.url ?? '')}`);
+    } else {
+      console.error(`  ${red('✗')} ${result.error}`);
+    }
+    releases.push({
+      tag: tagName,
+      url: result.url ?? null,
+      error: result.error ?? null,
+    });
+  }
+  console.log('');
+  return releases;
+}
+
+/**
+ * Git preflight: the origin remote exists, the branch is an allowed release
+ * branch, and it is not behind its upstream. Failures stop the release,
+ * except in a dry run where they are warnings.
+ */
+async function checkGitState(options: PublishOptions, cwd: string) {
+  if (!options.gitChecks) return;
+
+  const problems: string[] = [];
+  const branch = await getCurrentBranch(cwd);
+
+  if (!branch) {
+    problems.push(
+      options.branches.length > 0
+        ? `HEAD is detached, but releases are only allowed from ${options.branches.join(', ')}`
+        : 'HEAD is detached, so the release commit would not be on any branch. Check out the branch to release from.',
+    );
+  } else if (
+    options.branches.length > 0 &&
+    !options.branches.some((pattern) => matchPath(pattern, branch))
+  ) {
+    problems.push(
+      `Releases are only allowed from ${options.branches.join(', ')}, not ${branch}`,
+    );
+  }
+
+  if (!(await getRemoteUrl('origin', cwd))) {
+    problems.push('No "origin" remote is configured to push the release to');
+  } else if (branch) {
+    try {
+      const status = await getUpstreamStatus('origin', cwd);
+      if (!status) {
+        problems.push(
+          `${branch} has no upstream branch. Set one with: git push -u origin ${branch}`,
+        );
+      } else if (status.behind > 0) {
+        problems.push(
+          `${branch} is ${status.behind} commit(s) behind ${status.upstream}. Pull before releasing.`,
+        );
+      }
+    } catch (error) {
+      problems.push((error as Error).message);
+    }
+  }
+
+  if (problems.length === 0) return;
+
+  const label = options.dryRun ? yellow(bold('Warning:')) : red(bold('Error:'));
+  for (const problem of problems) {
+    console.error(`${label} ${problem}`);
+  }
+  console.log('');
+
+  if (options.dryRun) return;
+
+  console.log(muted('Use --no-git-checks to skip these checks.'));
+  closePrompt();
+  process.exit(1);
+}
+
+/**
+ * Stop the release when a hook failed.
+ */
+function exitOnHookFailure(result: HookResult, exitCode = 1) {
+  if (result.success) return;
+  console.error(`${red(bold('Error:'))} ${result.error}`);
+  closePrompt();
+  process.exit(exitCode);
+}
+
+/**
+ * Run the per-run and per-package hooks of a stage. For `pre*` stages the
+ * per-run hook goes first, for `post*` stages it goes last. `onFailure` runs
+ * before exiting when a hook fails.
+ */
+async function runStageHooks(
+  name: PackageHookName,
+  hooks: HooksConfig,
+  context: Omit<HookContext, 'hook' | 'package'>,
+  exitCode = 1,
+  onFailure?: () => Promise<void>,
+) {
+  const check = async (result: HookResult) => {
+    if (!result.success) await onFailure?.();
+    exitOnHookFailure(result, exitCode);
+  };
+  const runOnce = async () => {
+    await check(
+      await runHook(hooks[name], { ...context, hook: name, package: null }),
+    );
+  };
+  const runPerPackage = async () => {
+    for (const pkg of context.packages) {
+      await check(
+        await runHook(hooks.perPackage?.[name], {
+          ...context,
+          hook: name,
+          package: pkg,
+        }),
+      );
+    }
+  };
+
+  if (name.startsWith('pre')) {
+    await runOnce();
+    await runPerPackage();
+  } else {
+    await runPerPackage();
+    await runOnce();
+  }
+}
+
+interface PreparedRelease {
+  packages: DiscoveredPackage[];
+  tagNames: string[];
+  /** Versions before the bump, by package name */
+  previousVersions: Map<string, string>;
+}
+
+/**
+ * Discover and select packages, then bump and commit their versions.
+ */
+async function prepareRelease(
+  options: PublishOptions,
+  cwd: string,
+): Promise<PreparedRelease> {
+  const skipConfirms = options.skipConfirms || options.ci;
+  const skipAllPrompts = options.ci;
+
   // Discover packages
   console.log(cyan('Discovering packages...'));
   console.log('');
@@ -179,27 +906,60 @@ async function main() {
   }
 
   // Sort by dependency order
+  checkDependencyCycles(publishablePackages, options.cycles);
   packages = sortByDependencyOrder(publishablePackages);
-
-  console.log(`Found ${green(bold(String(packages.length)))} publishable package(s):`);
+  // Checked against all packages, so --version maps stay valid whichever
+  // packages --changed-only or the selection leave out
+  const discoveredNames = new Set(packages.map((p) => p.name));
+
+  const tagFormat = resolveTagFormat(options.tagFormat, options.independent);
+
+  // Compare each package against its last release tag
+  const changes = await detectChanges(
+    packages,
+    (pkg) => formatTag(tagFormat, { name: pkg.name, version: '*' }),
+    cwd,
+  );
+  const isChanged = (name: string) => changes.get(name)?.changed ?? true;
+  const unchangedLabel = (name: string) =>
+    isChanged(name) ? '' : ` (unchanged since ${changes.get(name)?.lastTag})`;
+
+  console.log(
+    `Found ${green(bold(String(packages.length)))} publishable package(s):`,
+  );
   console.log('');
   for (const pkg of packages) {
     const deps =
       pkg.localDependencies.length > 0
         ? dim(` (depends on: ${pkg.localDependencies.join(', ')})`)
         : '';
-    console.log(`  ${dim('•')} ${cyan(pkg.name)}${dim('@')}${yellow(pkg.version)}${deps}`);
+    console.log(
+      `  ${dim('•')} ${cyan(pkg.name)}${dim('@')}${yellow(pkg.version)}${deps}${muted(unchangedLabel(pkg.name))}`,
+    );
   }
   console.log('');
 
+  if (options.changedOnly) {
+    packages = packages.filter((pkg) => isChanged(pkg.name));
+
+    if (packages.length === 0) {
+      console.log(yellow('No packages changed since their last release.'));
+      closePrompt();
+      process.exit(0);
+    }
+  }
+
   // Package selection (skip if only one package or --ci flag)
   if (packages.length > 1 && !skipAllPrompts) {
     const selectedPackages = await multiSelect(
       'Select packages to publish:',
       packages.map((pkg) => ({
-        label: `${pkg.name}@${pkg.version}`,
+        label: `${pkg.name}@${pkg.version}${muted(unchangedLabel(pkg.name))}`,
         value: pkg,
+        selected: isChanged(pkg.name),
       })),
+      true,
+      '--ci',
     );
 
     if (selectedPackages.length === 0) {
@@ -212,141 +972,607 @@ async function main() {
     console.log('');
   }
 
-  // Get current version (use first package as source of truth)
-  const currentVersion = packages[0].version;
-
   // Step 1: Version Management
-  console.log(bold(cyan('Step 1:')) + ' Version Management');
+  console.log(`${bold(cyan('Step 1:'))} Version Management`);
   console.log(dim('─'.repeat(30)));
   console.log('');
-  console.log(`Current version: ${yellow(currentVersion)}`);
-  console.log('');
-
-  let newVersion = currentVersion;
 
-  // Handle version from --version flag (bump type or explicit version)
-  if (options.version) {
-    const bumpTypes = ['patch', 'minor', 'major'] as const;
-    const isBumpType = bumpTypes.includes(options.version as (typeof bumpTypes)[number]);
+  // New version per package name; empty if no bump was requested
+  let newVersions = new Map<string, string>();
+
+  // Recommend a bump from the Conventional Commits touching these packages
+  // since their last release tag
+  const recommend = async (pkgs: DiscoveredPackage[]) => {
+    const lastTag = changes.get(pkgs[0].name)?.lastTag ?? null;
+    const commits = await getCommitsSince(
+      lastTag,
+      pkgs.map((p) => p.path),
+      cwd,
+    );
+    return recommendBump(commits);
+  };
 
-    if (isBumpType) {
-      newVersion = bumpVersion(currentVersion, options.version as VersionBumpType);
-      console.log(`Bumping version (${options.version}): ${yellow(currentVersion)} → ${green(newVersion)}`);
-    } else {
-      newVersion = options.version;
-      console.log(`Using explicit version: ${green(newVersion)}`);
+  if (options.independent) {
+    console.log('Current versions:');
+    for (const pkg of packages) {
+      console.log(
+        `  ${dim('•')} ${cyan(pkg.name)}${dim('@')}${yellow(pkg.version)}`,
+      );
     }
     console.log('');
 
-    console.log(`Updating version to ${green(newVersion)} in all packages...`);
-    console.log('');
+    if (options.version) {
+      const versionMap = parseVersionMap(options.version);
 
-    for (const pkg of packages) {
-      await updatePackageVersion(pkg, newVersion, options.dryRun);
-    }
+      if (versionMap) {
+        for (const name of versionMap.keys()) {
+          if (!discoveredNames.has(name)) {
+            throw new Error(`--version refers to unknown package "${name}"`);
+          }
+        }
+      }
 
-    // Update local dependency versions
-    await updateLocalDependencyVersions(packages, newVersion, options.dryRun);
+      let usedAuto = false;
+      for (const pkg of packages) {
+        const spec = versionMap ? versionMap.get(pkg.name) : options.version;
+        if (spec === 'auto') {
+          usedAuto = true;
+          const recommendation = await recommend([pkg]);
+          console.log(cyan(pkg.name));
+          printRecommendation(recommendation);
+          console.log('');
+          if (recommendation.bumpType !== 'none') {
+            newVersions.set(
+              pkg.name,
+              bumpVersion(pkg.version, recommendation.bumpType, options.preid),
+            );
+          }
+        } else if (spec && spec !== 'none') {
+          newVersions.set(
+            pkg.name,
+            resolveVersion(pkg.version, spec, options.preid),
+          );
+        }
+      }
+
+      if (usedAuto && newVersions.size === 0) {
+        exitNothingToRelease();
+      }
+    } else if (!skipAllPrompts) {
+      const shouldBump =
+        skipConfirms || (await confirm('Bump versions before publishing?'));
+
+      if (shouldBump) {
+        for (const pkg of packages) {
+          const recommendation = await recommend([pkg]);
+          printRecommendation(recommendation);
+          console.log('');
+          const bumpType = await selectBumpType(
+            `Select version bump for ${cyan(pkg.name)}:`,
+            pkg.version,
+            true,
+            options.preid,
+            recommendation.bumpType,
+          );
+          if (bumpType !== 'none') {
+            newVersions.set(
+              pkg.name,
+              bumpVersion(pkg.version, bumpType, options.preid),
+            );
+          }
+          console.log('');
+        }
+      }
+    }
+  } else {
+    // Get current version (use first package as source of truth)
+    const currentVersion = packages[0].version;
+
+    console.log(`Current version: ${yellow(currentVersion)}`);
+    console.log('');
+
+    let newVersion = '';
+
+    // Handle version from --version flag (bump type or explicit version)
+    if (options.version === 'auto') {
+      const recommendation = await recommend(packages);
+      printRecommendation(recommendation);
+      console.log('');
+      if (recommendation.bumpType === 'none') {
+        exitNothingToRelease();
+      } else {
+        newVersion = bumpVersion(
+          currentVersion,
+          recommendation.bumpType,
+          options.preid,
+        );
+        console.log(
+          `Bumping version (${recommendation.bumpType}): ${yellow(currentVersion)} → ${green(newVersion)}`,
+        );
+        console.log('');
+      }
+    } else if (options.version) {
+      newVersion = resolveVersion(
+        currentVersion,
+        options.version,
+        options.preid,
+      );
+      if (isBumpType(options.version)) {
+        console.log(
+          `Bumping version (${options.version}): ${yellow(currentVersion)} → ${green(newVersion)}`,
+        );
+      } else {
+        console.log(`Using explicit version: ${green(newVersion)}`);
+      }
+      console.log('');
+    } else if (!skipAllPrompts) {
+      // With --yes: skip the confirmation but still ask for bump type
+      // Without --yes: ask both confirmation and bump type
+      const shouldBump =
+        skipConfirms || (await confirm('Bump version before publishing?'));
+
+      if (shouldBump) {
+        const recommendation = await recommend(packages);
+        printRecommendation(recommendation);
+        console.log('');
+        const bumpType = await selectBumpType(
+          'Select version bump type:',
+          currentVersion,
+          false,
+          options.preid,
+          recommendation.bumpType,
+        );
+        newVersion = bumpVersion(currentVersion, bumpType, options.preid);
+        console.log('');
+      }
+    }
+
+    if (newVersion) {
+      newVersions = new Map(packages.map((p) => [p.name, newVersion]));
+    }
+  }
+
+  const tagNames = planTagNames(packages, newVersions, tagFormat);
+  await checkExistingTags(tagNames, cwd, options.dryRun);
+
+  const previousVersions = new Map(packages.map((p) => [p.name, p.version]));
+
+  if (newVersions.size > 0) {
+    await runStageHooks('preVersion', options.hooks, {
+      cwd,
+      dryRun: options.dryRun,
+      registry: null,
+      packages: packages.map((pkg) =>
+        toHookPackage(pkg, pkg.version, newVersions.get(pkg.name)),
+      ),
+      tags: tagNames,
+    });
+
+    console.log('Updating versions...');
+    console.log('');
+
+    for (const pkg of packages) {
+      const newVersion = newVersions.get(pkg.name);
+      if (newVersion) {
+        await updatePackageVersion(pkg, newVersion, options.dryRun);
+      }
+    }
+
+    // Update local dependency versions
+    await updateLocalDependencyVersions(packages, newVersions, options.dryRun);
 
     // Update in-memory versions
     for (const pkg of packages) {
-      pkg.version = newVersion;
+      pkg.version = newVersions.get(pkg.name) ?? pkg.version;
     }
 
+    // Files written so far, restored if a postVersion hook fails
+    const versionFiles = packages.map((pkg) =>
+      relative(cwd, join(pkg.path, 'package.json')),
+    );
+
+    // Add release notes to the changelog(s), committed with the bump
+    if (options.changelog !== 'off') {
+      const placement =
+        options.changelog === 'auto'
+          ? options.independent
+            ? 'package'
+            : 'root'
+          : options.changelog;
+      const released = packages.filter((p) => newVersions.has(p.name));
+      versionFiles.push(
+        ...(placement === 'root'
+          ? ['CHANGELOG.md']
+          : released.map((pkg) =>
+              relative(cwd, join(pkg.path, 'CHANGELOG.md')),
+            )),
+      );
+      console.log('');
+      await updateChangelogs(
+        released,
+        placement,
+        options.independent,
+        (pkg) => changes.get(pkg.name)?.lastTag ?? null,
+        cwd,
+        options.dryRun,
+      );
+    }
+
+    // Files changed by postVersion hooks go into the release commit
+    await runStageHooks(
+      'postVersion',
+      options.hooks,
+      {
+        cwd,
+        dryRun: options.dryRun,
+        registry: null,
+        packages: packages.map((pkg) =>
+          toHookPackage(pkg, previousVersions.get(pkg.name) ?? null),
+        ),
+        tags: tagNames,
+      },
+      1,
+      async () => {
+        await restoreFiles(versionFiles, cwd);
+        console.error(
+          yellow(
+            `Restored ${versionFiles.join(', ')}. Files the hook changed itself were left as they are.`,
+          ),
+        );
+      },
+    );
+
     // Commit version bump
-    const commitResult = await commitVersionBump(newVersion, cwd, options.dryRun);
+    const releaseName = options.independent
+      ? packages
+          .filter((p) => newVersions.has(p.name))
+          .map((p) => `${p.name}@${p.version}`)
+          .join(', ')
+      : tagNames.join(', ');
+    const commitResult = await commitVersionBump(
+      releaseName,
+      cwd,
+      options.dryRun,
+    );
     if (!commitResult.success) {
-      console.error(red(bold('Failed to commit version bump:')) + ` ${commitResult.error}`);
+      console.error(
+        `${red(bold('Failed to commit version bump:'))} ${commitResult.error}`,
+      );
       closePrompt();
       process.exit(1);
     }
 
     console.log('');
-  } else if (!skipAllPrompts) {
-    // With --yes: skip the confirmation but still ask for bump type
-    // Without --yes: ask both confirmation and bump type
-    const shouldBump = skipConfirms || (await confirm('Bump version before publishing?'));
-
-    if (shouldBump) {
-      const bumpType = await select<VersionBumpType>(
-        'Select version bump type:',
-        [
-          {
-            label: `patch (${previewBump(currentVersion, 'patch')})`,
-            value: 'patch',
-          },
-          {
-            label: `minor (${previewBump(currentVersion, 'minor')})`,
-            value: 'minor',
-          },
-          {
-            label: `major (${previewBump(currentVersion, 'major')})`,
-            value: 'major',
-          },
-        ],
+  }
+
+  return { packages, tagNames, previousVersions };
+}
+
+/**
+ * Restore the packages and tags planned by an unfinished release.
+ */
+async function resumeRelease(
+  journal: ReleaseJournal,
+  cwd: string,
+): Promise<PreparedRelease> {
+  console.log(
+    `${cyan('Resuming release')} ${dim(`started ${journal.startedAt}`)}`,
+  );
+  console.log('');
+
+  const discovered = new Map(
+    (await discoverPackages(cwd)).map((pkg) => [pkg.name, pkg]),
+  );
+
+  const packages = journal.packages.map((entry) => {
+    const pkg = discovered.get(entry.name);
+    if (!pkg) {
+      throw new Error(
+        `Package "${entry.name}" from the release journal was not found`,
+      );
+    }
+    if (pkg.version !== entry.version) {
+      throw new Error(
+        `${entry.name} is at ${pkg.version} but the release journal planned ${entry.version}`,
       );
+    }
+    return pkg;
+  });
+
+  for (const entry of journal.packages) {
+    const status =
+      entry.status === 'published'
+        ? green('published')
+        : entry.status === 'failed'
+          ? red('failed')
+          : yellow('pending');
+    console.log(
+      `  ${dim('•')} ${cyan(entry.name)}${dim('@')}${yellow(entry.version)} ${status}`,
+    );
+  }
+  console.log('');
 
-      newVersion = bumpVersion(currentVersion, bumpType);
+  await checkExistingTags(journal.tagNames, cwd, false);
 
-      console.log('');
-      console.log(`Updating version to ${green(newVersion)} in all packages...`);
-      console.log('');
+  const previousVersions = new Map<string, string>();
+  for (const entry of journal.packages) {
+    if (entry.previousVersion) {
+      previousVersions.set(entry.name, entry.previousVersion);
+    }
+  }
 
-      for (const pkg of packages) {
-        await updatePackageVersion(pkg, newVersion, options.dryRun);
-      }
+  return { packages, tagNames: journal.tagNames, previousVersions };
+}
 
-      // Update local dependency versions
-      await updateLocalDependencyVersions(packages, newVersion, options.dryRun);
+async function main() {
+  const { help, command, ...cliOptions } = parseArgs(process.argv.slice(2));
 
-      // Update in-memory versions
-      for (const pkg of packages) {
-        pkg.version = newVersion;
-      }
+  if (help) {
+    printUsage();
+    process.exit(0);
+  }
+
+  const cwd = process.cwd();
+
+  if (command === 'list') {
+    await listPackages(cwd);
+    closePrompt();
+    return;
+  }
+
+  const { config, source: configSource } = await loadConfig(cwd);
+  const options = resolveOptions(config, cliOptions);
+
+  const report = createReport(options);
+  if (options.json || options.report) {
+    attachReport(report, { json: options.json, file: options.report });
+  }
+
+  // CI mode validation
+  if (options.ci && !options.version && !options.resume) {
+    console.error(
+      `${red(bold('Error:'))} --ci requires --version to be specified`,
+    );
+    console.log('');
+    console.log(muted('Examples:'));
+    console.log(muted('  pubz --ci --version patch'));
+    console.log(muted('  pubz --ci --version minor'));
+    console.log(muted('  pubz --ci --version major'));
+    console.log(muted('  pubz --ci --version auto'));
+    console.log(muted('  pubz --ci --version 1.2.3'));
+    process.exit(1);
+  }
+
+  // Helper to check if we should skip confirmations
+  const skipConfirms = options.skipConfirms || options.ci;
+  // Helper to check if we should skip all prompts (including selections)
+  const skipAllPrompts = options.ci;
 
-      // Commit version bump
-      const commitResult = await commitVersionBump(newVersion, cwd, options.dryRun);
-      if (!commitResult.success) {
-        console.error(red(bold('Failed to commit version bump:')) + ` ${commitResult.error}`);
+  if (options.dryRun) {
+    console.log(
+      yellow(bold('DRY RUN MODE')) + dim(' - No actual changes will be made'),
+    );
+    console.log('');
+  }
+
+  console.log(bold('pubz') + dim(' - npm package publisher'));
+  console.log(dim('═'.repeat(30)));
+  console.log('');
+
+  if (configSource) {
+    console.log(dim(`Using config from ${configSource}`));
+    console.log('');
+  }
+
+  await checkGitState(options, cwd);
+
+  // Check for uncommitted changes
+  const uncommitted = await hasUncommittedChanges(cwd);
+  if (uncommitted.hasChanges && !options.dryRun) {
+    console.error(`${red(bold('Error:'))} You have uncommitted changes:`);
+    console.log('');
+    for (const file of uncommitted.files.slice(0, 10)) {
+      console.log(`  ${yellow(file)}`);
+    }
+    if (uncommitted.files.length > 10) {
+      console.log(dim(`  ... and ${uncommitted.files.length - 10} more`));
+    }
+    console.log('');
+    console.log(
+      muted('Please commit or stash your changes before publishing.'),
+    );
+    closePrompt();
+    process.exit(1);
+  }
+
+  let packages: DiscoveredPackage[];
+  let tagNames: string[];
+  let previousVersions: Map<string, string>;
+
+  beginStep(report, 'version');
+
+  const existingJournal = await readJournal(cwd);
+  const resumeJournal = options.resume ? existingJournal : null;
+
+  if (options.resume) {
+    if (!resumeJournal) {
+      console.error(
+        `${red(bold('Error:'))} No unfinished release to resume (${STATE_DIR}/state.json not found)`,
+      );
+      closePrompt();
+      process.exit(1);
+    }
+    ({ packages, tagNames, previousVersions } = await resumeRelease(
+      resumeJournal,
+      cwd,
+    ));
+    // Finish the release the way it was planned, whatever the flags say now
+    options.independent = resumeJournal.independent;
+    options.tagFormat = resumeJournal.tagFormat;
+  } else {
+    if (existingJournal && !options.dryRun) {
+      const pending = existingJournal.packages.filter(
+        (p) => p.status !== 'published',
+      );
+      console.log(
+        `${yellow(bold('Warning:'))} A release started ${existingJournal.startedAt} did not finish (${pending.length} package(s) not published).`,
+      );
+      console.log('');
+
+      if (skipConfirms) {
+        console.error(
+          `${red(bold('Error:'))} Run ${bold('pubz --resume')} to finish it, or delete ${STATE_DIR}/state.json to start over.`,
+        );
         closePrompt();
         process.exit(1);
       }
 
+      const shouldDiscard = await confirm(
+        'Discard it and start a new release?',
+        false,
+        '--resume',
+      );
+      if (!shouldDiscard) {
+        console.log(muted(`Run ${bold('pubz --resume')} to finish it.`));
+        closePrompt();
+        process.exit(0);
+      }
+      await clearJournal(cwd);
       console.log('');
     }
+
+    ({ packages, tagNames, previousVersions } = await prepareRelease(
+      options,
+      cwd,
+    ));
   }
 
-  // Step 2: Registry Selection
-  let registry = options.registry;
+  const discovered = await discoverPackages(cwd);
+  report.discovered = discovered.map((pkg) => ({
+    name: pkg.name,
+    version: pkg.version,
+    path: relative(cwd, pkg.path) || '.',
+    private: pkg.isPrivate,
+  }));
+  report.packages = packages.map((pkg) => {
+    const previousVersion = previousVersions.get(pkg.name) ?? null;
+    return {
+      name: pkg.name,
+      previousVersion,
+      version: pkg.version,
+      bump: previousVersion ? diffSemver(previousVersion, pkg.version) : null,
+      distTag: null,
+      registry: null,
+      status: 'pending',
+      error: null,
+    };
+  });
+  report.git.commit = await getHeadCommit(cwd);
 
-  if (!registry && !skipAllPrompts) {
-    registry = await select('Select publish target:', [
-      {
-        label: 'Public npm registry (https://registry.npmjs.org)',
-        value: REGISTRIES.npm,
-      },
-      {
-        label: 'GitHub Packages (https://npm.pkg.github.com)',
-        value: REGISTRIES.github,
-      },
-    ]);
+  // Step 2: Registry Selection
+  let registry = resumeJournal?.registry ?? options.registry;
+  // Only ask when some package has no publishConfig.registry of its own
+  const needsRegistry = packages.some((pkg) => !pkg.publishConfig.registry);
+
+  if (!registry && needsRegistry && !skipAllPrompts) {
+    registry = await select(
+      'Select publish target:',
+      [
+        {
+          label: 'Public npm registry (https://registry.npmjs.org)',
+          value: REGISTRIES.npm,
+        },
+        {
+          label: 'GitHub Packages (https://npm.pkg.github.com)',
+          value: REGISTRIES.github,
+        },
+      ],
+      0,
+      '--registry',
+    );
   }
 
   registry = registry || REGISTRIES.npm;
+  report.registry = registry;
 
-  console.log('');
-  console.log(`Publishing to: ${cyan(registry)}`);
-  console.log('');
+  if (needsRegistry) {
+    console.log('');
+    console.log(`Publishing to: ${cyan(registry)}`);
+    console.log('');
+  }
+
+  // Each package's publishConfig wins over the run's registry, access and
+  // tag. Prereleases go to `next` unless a tag was given explicitly, and a
+  // resumed release keeps the dist-tags it was planned with.
+  const targets = new Map(
+    packages.map((pkg) => {
+      const target = resolvePublishTarget(pkg, {
+        registry,
+        access: options.access,
+        tag: options.tag,
+      });
+      const entry = resumeJournal?.packages.find((p) => p.name === pkg.name);
+      return [pkg.name, entry ? { ...target, tag: entry.distTag } : target];
+    }),
+  );
+  const distTags = new Map(
+    [...targets].map(([name, target]) => [name, target.tag]),
+  );
+  const targetOf = (pkg: DiscoveredPackage) =>
+    targets.get(pkg.name) as PublishTarget;
+
+  // Record the plan before building, so a failed build or publish can be
+  // continued with --resume without bumping again
+  const journal =
+    resumeJournal ??
+    createJournal(packages, registry, distTags, tagNames, previousVersions, {
+      independent: options.independent,
+      tagFormat: resolveTagFormat(options.tagFormat, options.independent),
+    });
+  for (const entry of report.packages) {
+    entry.distTag = distTags.get(entry.name) ?? null;
+    entry.registry = targets.get(entry.name)?.registry ?? null;
+    if (
+      journal.packages.find((p) => p.name === entry.name)?.status ===
+      'published'
+    ) {
+      entry.status = 'published';
+    }
+  }
+  if (!options.dryRun) {
+    await writeJournal(cwd, journal);
+  }
+
+  // Once something is out, stopping leaves a partial release (exit code 2)
+  const failureExitCode = () =>
+    journal.packages.some((p) => p.status === 'published') ? 2 : 1;
+  const hookPackages = packages.map((pkg) =>
+    toHookPackage(pkg, previousVersions.get(pkg.name) ?? null),
+  );
+  const hookContext = { cwd, dryRun: options.dryRun, registry, tags: tagNames };
 
   // Step 3: Build
   if (!options.skipBuild) {
-    console.log(bold(cyan('Step 2:')) + ' Building Packages');
+    beginStep(report, 'build');
+    console.log(`${bold(cyan('Step 2:'))} Building Packages`);
     console.log(dim('─'.repeat(30)));
     console.log('');
 
-    const buildResult = await runBuild(cwd, options.dryRun);
+    await runStageHooks(
+      'preBuild',
+      options.hooks,
+      { ...hookContext, packages: hookPackages },
+      failureExitCode(),
+    );
+
+    const buildResult = await runBuild(
+      cwd,
+      packages,
+      options.dryRun,
+      options.buildCommand,
+    );
     if (!buildResult.success) {
-      console.error(red(bold('Build failed:')) + ` ${buildResult.error}`);
+      console.error(`${red(bold('Build failed:'))} ${buildResult.error}`);
       closePrompt();
       process.exit(1);
     }
@@ -361,7 +1587,10 @@ async function main() {
       if (result.success) {
         console.log(`  ${green('✓')} ${pkg.name} build verified`);
       } else {
-        console.error(`  ${red('✗')} ${pkg.name}: ${result.error}`);
+        console.error(`  ${red('✗')} ${pkg.name}`);
+        for (const error of result.errors) {
+          console.error(`      ${error}`);
+        }
         allBuildsVerified = false;
       }
     }
@@ -370,37 +1599,190 @@ async function main() {
 
     if (!allBuildsVerified) {
       console.error(
-        red('Build verification failed.') + muted(' Please fix the issues and try again.'),
+        red('Build verification failed.') +
+          muted(' Please fix the issues and try again.'),
       );
       closePrompt();
       process.exit(1);
     }
+
+    await runStageHooks(
+      'postBuild',
+      options.hooks,
+      { ...hookContext, packages: hookPackages },
+      failureExitCode(),
+    );
+    console.log('');
   }
 
   // Step 4: Publish
-  console.log(bold(cyan('Step 3:')) + ' Publishing to npm');
+  beginStep(report, 'publish');
+  console.log(`${bold(cyan('Step 3:'))} Publishing to npm`);
   console.log(dim('─'.repeat(30)));
   console.log('');
 
-  if (options.dryRun) {
+  // Compare each version with the registry so reruns skip what is already
+  // out, and nothing is published below the current dist-tag
+  console.log(cyan('Checking registry...'));
+  console.log('');
+
+  const npmrc = await loadNpmrc(cwd);
+  const alreadyPublished = new Set<string>();
+  const olderThanRegistry: string[] = [];
+
+  for (const pkg of packages) {
+    const { tag: distTag, registry: target } = targetOf(pkg);
+    try {
+      const check = await checkRegistryVersion(
+        pkg.name,
+        pkg.version,
+        distTag,
+        target,
+        npmrc,
+      );
+      if (check.status === 'published') {
+        alreadyPublished.add(pkg.name);
+        setReportPackageStatus(report, pkg.name, 'skipped');
+        console.log(
+          `  ${dim('•')} ${pkg.name}@${pkg.version} ${muted('already published')}`,
+        );
+      } else if (check.status === 'older') {
+        olderThanRegistry.push(pkg.name);
+        console.log(
+          `  ${red('✗')} ${pkg.name}@${pkg.version} ${red(`older than registry (${distTag}: ${check.currentVersion})`)}`,
+        );
+      } else {
+        console.log(
+          `  ${green('✓')} ${pkg.name}@${pkg.version} ${green('new')}`,
+        );
+      }
+    } catch (error) {
+      console.log(
+        `  ${yellow('!')} ${pkg.name}: ${yellow((error as Error).message)}`,
+      );
+    }
+  }
+  console.log('');
+
+  if (olderThanRegistry.length > 0) {
+    console.error(
+      `${red(bold('Error:'))} ${olderThanRegistry.join(', ')} would be published below the version on the registry.`,
+    );
     console.log(
-      yellow('[DRY RUN]') + ` Would publish the following packages to ${cyan(registry)}:`,
+      muted('Bump to a higher version, or use --tag to publish a backport.'),
     );
+    closePrompt();
+    process.exit(1);
+  }
+
+  if (!options.dryRun) {
+    for (const name of alreadyPublished) {
+      await setPackageStatus(cwd, journal, name, 'published');
+    }
+  }
+
+  // Packages that still need publishing
+  const pending = packages.filter(
+    (pkg) =>
+      !alreadyPublished.has(pkg.name) &&
+      journal.packages.find((p) => p.name === pkg.name)?.status !== 'published',
+  );
+
+  await checkAuthentication(pending, targets, npmrc, options);
+
+  const targetLabel = (pkg: DiscoveredPackage) =>
+    dim(` → ${describePublishTarget(pkg, targetOf(pkg))}`) +
+    (alreadyPublished.has(pkg.name)
+      ? muted(' already published, skipping')
+      : '');
+
+  const prereleasesOnLatest = packages.filter(
+    (pkg) =>
+      isPrerelease(pkg.version) &&
+      distTags.get(pkg.name) === 'latest' &&
+      !alreadyPublished.has(pkg.name),
+  );
+  if (prereleasesOnLatest.length > 0) {
+    console.log(
+      `${yellow(bold('Warning:'))} publishing prerelease(s) to the ${bold('latest')} dist-tag:`,
+    );
+    for (const pkg of prereleasesOnLatest) {
+      console.log(
+        `  ${dim('•')} ${cyan(pkg.name)}${dim('@')}${yellow(pkg.version)}`,
+      );
+    }
+    console.log('');
+
+    if (!options.dryRun) {
+      if (skipConfirms) {
+        console.error(
+          `${red(bold('Error:'))} Refusing to publish a prerelease to "latest" without confirmation.`,
+        );
+        console.log(muted('Use --tag next, or run interactively to confirm.'));
+        closePrompt();
+        process.exit(1);
+      }
+
+      const shouldContinue = await confirm(
+        'Users installing without a tag will get this prerelease. Continue?',
+        false,
+        '--tag',
+      );
+      if (!shouldContinue) {
+        console.log(yellow('Publish cancelled.'));
+        closePrompt();
+        process.exit(0);
+      }
+      console.log('');
+    }
+  }
+
+  await inspectTarballs(pending, targets, options);
+
+  // Versions of every workspace package, for resolving `workspace:` ranges
+  // in the published manifests
+  const workspaceVersions = new Map(
+    discovered.map((pkg) => [pkg.name, pkg.version]),
+  );
+  for (const pkg of packages) {
+    workspaceVersions.set(pkg.name, pkg.version);
+  }
+
+  if (options.dryRun) {
+    console.log(`${yellow('[DRY RUN]')} Would publish the following packages:`);
     console.log('');
     for (const pkg of packages) {
-      console.log(`  ${dim('•')} ${cyan(pkg.name)}${dim('@')}${yellow(newVersion)}`);
+      console.log(
+        `  ${dim('•')} ${cyan(pkg.name)}${dim('@')}${yellow(pkg.version)}${targetLabel(pkg)}`,
+      );
+      const manifestPath = join(targetOf(pkg).directory, 'package.json');
+      for (const dep of await getWorkspaceResolutions(
+        manifestPath,
+        workspaceVersions,
+      ).catch(() => [])) {
+        console.log(dim(`      ${dep.name}: ${dep.from} -> ${dep.to}`));
+      }
     }
     console.log('');
+    await runStageHooks('prePublish', options.hooks, {
+      ...hookContext,
+      packages: hookPackages,
+    });
+    await runStageHooks('postPublish', options.hooks, {
+      ...hookContext,
+      packages: hookPackages,
+    });
+    console.log('');
     console.log(muted('Run without --dry-run to actually publish.'));
   } else {
     console.log('About to publish the following packages:');
     console.log('');
     for (const pkg of packages) {
-      console.log(`  ${dim('•')} ${cyan(pkg.name)}${dim('@')}${yellow(newVersion)}`);
+      console.log(
+        `  ${dim('•')} ${cyan(pkg.name)}${dim('@')}${yellow(pkg.version)}${targetLabel(pkg)}`,
+      );
     }
     console.log('');
-    console.log(`Registry: ${cyan(registry)}`);
-    console.log('');
 
     if (!skipConfirms) {
       const shouldContinue = await confirm('Continue?');
@@ -412,18 +1794,188 @@ async function main() {
     }
 
     console.log('');
-    console.log(cyan('Publishing packages...'));
+    console.log(
+      cyan(
+        options.concurrency > 1
+          ? `Publishing packages (up to ${options.concurrency} at a time)...`
+          : 'Publishing packages...',
+      ),
+    );
     console.log('');
 
-    for (const pkg of packages) {
-      const result = await publishPackage(pkg, registry, options.otp, options.dryRun);
-      if (!result.success) {
-        console.error(red(bold('Failed to publish')) + ` ${cyan(pkg.name)}: ${result.error}`);
-        console.log('');
-        console.log(red('Stopping publish process.'));
-        closePrompt();
-        process.exit(1);
+    // Packages in the same level do not depend on each other, so they can
+    // be published in parallel; a level only starts once the previous one
+    // is complete
+    const failures: {
+      pkg: DiscoveredPackage;
+      error?: string;
+      /** The publish went through, but its postPublish hook failed */
+      published?: boolean;
+    }[] = [];
+
+    exitOnHookFailure(
+      await runHook(options.hooks.prePublish, {
+        ...hookContext,
+        hook: 'prePublish',
+        packages: hookPackages,
+        package: null,
+      }),
+      failureExitCode(),
+    );
+
+    // When a one-time password is rejected, ask for a new one once and share
+    // it with every package that failed with the old one. Resolves to '' when
+    // no new one can be had, and the package then fails as usual
+    let otp = options.otp;
+    let otpRequest: Promise<string> | null = null;
+    const requestOtp = (rejected: string): Promise<string> => {
+      if (otp !== rejected) return Promise.resolve(otp);
+      otpRequest ??= input('Enter a new one-time password:', {
+        validate: (code) =>
+          /^\d{6,8}$/.test(code) ? null : 'Expected a 6 to 8 digit code',
+        flag: '--otp',
+      })
+        .then((code) => {
+          otp = code;
+          return otp;
+        })
+        .catch(() => '')
+        .finally(() => {
+          otpRequest = null;
+        });
+      return otpRequest;
+    };
+
+    for (const level of groupByDependencyLevel(packages)) {
+      await runConcurrently(level, options.concurrency, async (pkg) => {
+        // Do not start new publishes once something failed
+        if (failures.length > 0) return;
+
+        const entry = journal.packages.find((p) => p.name === pkg.name);
+        if (entry?.status === 'published' || alreadyPublished.has(pkg.name)) {
+          console.log(
+            `  ${green('✓')} ${pkg.name}@${pkg.version} already published, skipping`,
+          );
+          return;
+        }
+
+        const packageHookContext = {
+          ...hookContext,
+          packages: hookPackages,
+          package: toHookPackage(pkg, previousVersions.get(pkg.name) ?? null),
+        };
+        const preHook = await runHook(options.hooks.perPackage?.prePublish, {
+          ...packageHookContext,
+          hook: 'prePublish',
+        });
+        if (!preHook.success) {
+          failures.push({ pkg, error: preHook.error });
+          setReportPackageStatus(report, pkg.name, 'failed', preHook.error);
+          await setPackageStatus(
+            cwd,
+            journal,
+            pkg.name,
+            'failed',
+            preHook.error,
+          );
+          return;
+        }
+
+        let usedOtp = otp;
+        let result = await publishPackage(
+          pkg,
+          targetOf(pkg),
+          usedOtp,
+          options.dryRun,
+          workspaceVersions,
+        );
+        while (
+          !result.success &&
+          result.errorKind === 'otp' &&
+          !options.ci &&
+          process.stdin.isTTY &&
+          failures.length === 0
+        ) {
+          console.log(`  ${yellow('!')} ${yellow(result.error ?? '')}`);
+          usedOtp = await requestOtp(usedOtp);
+          if (!usedOtp) break;
+          result = await publishPackage(
+            pkg,
+            targetOf(pkg),
+            usedOtp,
+            options.dryRun,
+            workspaceVersions,
+          );
+        }
+        if (!result.success) {
+          failures.push({ pkg, error: result.error });
+          setReportPackageStatus(report, pkg.name, 'failed', result.error);
+          await setPackageStatus(
+            cwd,
+            journal,
+            pkg.name,
+            'failed',
+            result.error,
+          );
+          return;
+        }
+        await setPackageStatus(cwd, journal, pkg.name, 'published');
+        setReportPackageStatus(report, pkg.name, 'published');
+
+        const postHook = await runHook(options.hooks.perPackage?.postPublish, {
+          ...packageHookContext,
+          hook: 'postPublish',
+        });
+        if (!postHook.success) {
+          failures.push({ pkg, error: postHook.error, published: true });
+        }
+      });
+
+      if (failures.length > 0) break;
+    }
+
+    if (failures.length > 0) {
+      for (const { pkg, error, published } of failures) {
+        console.error(
+          published
+            ? `${red(bold('Error:'))} ${error}`
+            : `${red(bold('Failed to publish'))} ${cyan(pkg.name)}: ${error}`,
+        );
       }
+      console.log('');
+      console.log(red('Stopping publish process.'));
+      console.log(
+        muted(
+          `Fix the problem and run ${bold('pubz --resume')} to publish the remaining packages.`,
+        ),
+      );
+      closePrompt();
+      // Exit code 2: some packages are out, the rest still need publishing
+      process.exit(failureExitCode());
+    }
+
+    await clearJournal(cwd);
+
+    exitOnHookFailure(
+      await runHook(options.hooks.postPublish, {
+        ...hookContext,
+        hook: 'postPublish',
+        packages: hookPackages,
+        package: null,
+      }),
+      2,
+    );
+
+    console.log('');
+    console.log(cyan('Dist-tags:'));
+    for (const pkg of packages) {
+      const tags = await getDistTags(pkg.name, targetOf(pkg).registry, cwd);
+      const summary = tags
+        ? Object.entries(tags)
+            .map(([tag, version]) => `${tag} → ${version}`)
+            .join(', ')
+        : muted('could not be fetched');
+      console.log(`  ${dim('•')} ${cyan(pkg.name)}: ${summary}`);
     }
   }
 
@@ -431,54 +1983,142 @@ async function main() {
   console.log(dim('═'.repeat(30)));
   console.log(green(bold('Publishing complete!')));
   console.log('');
-  console.log(`Published version: ${green(bold(newVersion))}`);
+  if (options.independent) {
+    console.log('Published versions:');
+    for (const pkg of packages) {
+      console.log(
+        `  ${dim('•')} ${cyan(pkg.name)}${dim('@')}${green(pkg.version)}`,
+      );
+    }
+  } else {
+    console.log(`Published version: ${green(bold(packages[0].version))}`);
+  }
   console.log('');
 
   // Step 5: Git tagging
-  if (!options.dryRun) {
-    if (options.ci) {
-      // In CI mode, automatically create and push git tag
+  beginStep(report, 'tag');
+  // Set when a tag, push or release fails after publishing
+  let incomplete = false;
+  const tagOptions = { message: options.tagMessage, sign: options.signTags };
+  if (!options.dryRun && tagNames.length > 0 && (options.ci || !skipConfirms)) {
+    const tagList = tagNames.map((t) => cyan(t)).join(', ');
+    // In CI mode, tags are created and pushed without asking
+    const shouldTag =
+      options.ci ||
+      (await confirm(
+        `Create ${tagNames.length > 1 ? 'git tags' : 'a git tag'} for ${tagList}?`,
+        true,
+        '--ci',
+      ));
+
+    if (shouldTag) {
       console.log('');
       console.log(cyan('Creating git tag...'));
-      const tagResult = await createGitTag(newVersion, cwd, options.dryRun);
-
-      if (tagResult.success) {
-        console.log(cyan('Pushing tag to origin...'));
-        await pushGitTag(newVersion, cwd, options.dryRun);
-      } else {
-        console.error(red(tagResult.error ?? 'Failed to create git tag'));
-      }
-      console.log('');
-    } else if (!skipConfirms) {
-      const shouldTag = await confirm(`Create a git tag for ${cyan(`v${newVersion}`)}?`);
-
-      if (shouldTag) {
-        console.log('');
-        const tagResult = await createGitTag(newVersion, cwd, options.dryRun);
-
+      const createdTags: string[] = [];
+      for (const tagName of tagNames) {
+        const tagResult = await createGitTag(
+          tagName,
+          cwd,
+          options.dryRun,
+          tagOptions,
+        );
         if (tagResult.success) {
-          const shouldPush = await confirm('Push tag to origin?');
-          if (shouldPush) {
-            await pushGitTag(newVersion, cwd, options.dryRun);
-          } else {
-            console.log(
-              `Tag created locally. Push manually with: ${dim(`git push origin v${newVersion}`)}`,
+          createdTags.push(tagName);
+        } else {
+          incomplete = true;
+          console.error(red(tagResult.error ?? 'Failed to create git tag'));
+        }
+      }
+      report.git.tags = createdTags;
+
+      const branch = await getCurrentBranch(cwd);
+      const pushTarget = branch
+        ? `the release commit on ${branch} and ${createdTags.length > 1 ? 'tags' : 'tag'}`
+        : createdTags.length > 1
+          ? 'tags'
+          : 'tag';
+
+      if (createdTags.length > 0) {
+        if (!branch) {
+          console.log(
+            yellow(
+              `HEAD is detached: the release commit is only reachable from ${createdTags.join(', ')}. Merge it into a branch with: git merge ${createdTags[0]}`,
+            ),
+          );
+        }
+        const shouldPush =
+          options.ci ||
+          (await confirm(`Push ${pushTarget} to origin?`, true, '--ci'));
+        if (shouldPush) {
+          console.log(cyan(`Pushing ${pushTarget} to origin...`));
+          const pushResult = await pushRelease(
+            createdTags,
+            branch,
+            cwd,
+            options.dryRun,
+          );
+          console.log('');
+          if (pushResult.success) {
+            report.git.pushed = true;
+            report.git.releases = await createReleases(
+              createdTags,
+              packages,
+              options,
+              cwd,
             );
+          } else {
+            console.error(`${red(bold('Push failed:'))} ${pushResult.error}`);
+            closePrompt();
+            process.exit(2);
           }
         } else {
-          console.error(red(tagResult.error ?? 'Failed to create git tag'));
+          console.log(
+            `Tag created locally. Push manually with: ${dim(`git push --atomic origin ${branch ? 'HEAD ' : ''}${createdTags.join(' ')}`)}`,
+          );
+          console.log('');
         }
-        console.log('');
+
+        exitOnHookFailure(
+          await runHook(options.hooks.postTag, {
+            ...hookContext,
+            hook: 'postTag',
+            packages: hookPackages,
+            package: null,
+            tags: createdTags,
+          }),
+          2,
+        );
       }
     }
   }
 
+  if (options.dryRun && tagNames.length > 0) {
+    await runHook(options.hooks.postTag, {
+      ...hookContext,
+      hook: 'postTag',
+      packages: hookPackages,
+      package: null,
+    });
+    await createReleases(tagNames, packages, options, cwd);
+  }
+
+  if (report.git.releases.some((release) => release.error)) {
+    incomplete = true;
+  }
+
+  completeReport();
+  if (incomplete) {
+    console.log(yellow(bold('Done, with errors (see above).')));
+    closePrompt();
+    process.exit(2);
+  }
+
   console.log(green(bold('Done!')));
   closePrompt();
 }
 
 main().catch((error) => {
-  console.error(red(bold('Error:')) + ` ${error.message}`);
+  console.error(`${red(bold('Error:'))} ${error.message}`);
   closePrompt();
   process.exit(1);
 });
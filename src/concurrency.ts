@@ -0,0 +1,25 @@
+/**
+ * Run `fn` for every item with at most `limit` calls in flight at once.
+ * Resolves once all calls have settled; `fn` is expected to handle its own
+ * errors.
+ */
+export async function runConcurrently<T>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await fn(item);
+    }
+  };
+
+  const workers = Array.from(
+    { length: Math.min(Math.max(limit, 1), items.length) },
+    worker,
+  );
+  await Promise.all(workers);
+}
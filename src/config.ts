@@ -0,0 +1,265 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { fileExists } from './fs.js';
+import { HOOK_NAMES, PACKAGE_HOOK_NAMES } from './hooks.js';
+import { parseSize } from './tarball.js';
+import type {
+  ChangelogMode,
+  CycleMode,
+  PackageJson,
+  PublishAccess,
+  PublishOptions,
+  PubzConfig,
+  ReleaseMode,
+} from './types.js';
+
+export const CHANGELOG_MODES: ChangelogMode[] = [
+  'auto',
+  'root',
+  'package',
+  'off',
+];
+
+export const CYCLE_MODES: CycleMode[] = ['error', 'warn'];
+
+export const RELEASE_MODES: ReleaseMode[] = ['off', 'github', 'gitlab'];
+
+export const ACCESS_LEVELS: PublishAccess[] = ['public', 'restricted'];
+
+export const CONFIG_FILE_NAME = 'pubz.config.json';
+
+export const DEFAULT_OPTIONS: PublishOptions = {
+  dryRun: false,
+  registry: '',
+  access: 'public',
+  otp: '',
+  tag: '',
+  skipBuild: false,
+  skipConfirms: false,
+  ci: false,
+  resume: false,
+  version: '',
+  preid: '',
+  independent: false,
+  changedOnly: false,
+  changelog: 'auto',
+  buildCommand: '',
+  tagFormat: '',
+  tagMessage: '',
+  signTags: false,
+  cycles: 'warn',
+  concurrency: 1,
+  maxPackageSize: '',
+  allowPackWarnings: false,
+  branches: [],
+  gitChecks: true,
+  release: 'off',
+  releaseApiUrl: '',
+  json: false,
+  report: '',
+  hooks: {},
+};
+
+export interface LoadedConfig {
+  config: PubzConfig;
+  /** Where the config was read from, or null if no config was found */
+  source: string | null;
+}
+
+type Validator = (value: unknown) => string | null;
+
+const isString: Validator = (value) =>
+  typeof value === 'string' ? null : 'expected a string';
+
+const isBoolean: Validator = (value) =>
+  typeof value === 'boolean' ? null : 'expected a boolean';
+
+const isPositiveInteger: Validator = (value) =>
+  Number.isInteger(value) && (value as number) > 0
+    ? null
+    : 'expected a positive integer';
+
+const isHookCommand = (value: unknown) =>
+  typeof value === 'string' ||
+  (Array.isArray(value) && value.every((item) => typeof item === 'string'));
+
+/**
+ * Check a hooks object: known hook names with a command or a list of
+ * commands, plus `perPackage` with the same shape at the top level.
+ */
+function validateHooks(
+  value: unknown,
+  names: readonly string[],
+  allowPerPackage: boolean,
+): string | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'expected an object';
+  }
+
+  for (const [key, command] of Object.entries(value)) {
+    if (key === 'perPackage' && allowPerPackage) {
+      const error = validateHooks(command, PACKAGE_HOOK_NAMES, false);
+      if (error) return `perPackage: ${error}`;
+    } else if (!names.includes(key)) {
+      return `unknown hook "${key}", expected one of ${names.join(', ')}`;
+    } else if (!isHookCommand(command)) {
+      return `${key}: expected a command or an array of commands`;
+    }
+  }
+  return null;
+}
+
+const oneOf =
+  (values: readonly string[]): Validator =>
+  (value) =>
+    typeof value === 'string' && values.includes(value)
+      ? null
+      : `expected one of ${values.join(', ')}`;
+
+const CONFIG_SCHEMA: Record<keyof PubzConfig, Validator> = {
+  dryRun: isBoolean,
+  registry: isString,
+  access: oneOf(ACCESS_LEVELS),
+  otp: isString,
+  tag: isString,
+  skipBuild: isBoolean,
+  skipConfirms: isBoolean,
+  ci: isBoolean,
+  resume: isBoolean,
+  version: isString,
+  preid: (value) => {
+    const error = isString(value);
+    if (error) return error;
+    return /^[0-9A-Za-z-]*$/.test(value as string)
+      ? null
+      : 'may only contain alphanumerics and hyphens';
+  },
+  independent: isBoolean,
+  changedOnly: isBoolean,
+  changelog: oneOf(CHANGELOG_MODES),
+  buildCommand: isString,
+  tagFormat: (value) => {
+    const error = isString(value);
+    if (error) return error;
+    return value === '' || (value as string).includes('{version}')
+      ? null
+      : 'must contain the {version} placeholder';
+  },
+  tagMessage: isString,
+  signTags: isBoolean,
+  cycles: oneOf(CYCLE_MODES),
+  concurrency: isPositiveInteger,
+  maxPackageSize: (value) => {
+    const error = isString(value);
+    if (error) return error;
+    return value === '' || parseSize(value as string) !== null
+      ? null
+      : 'expected a size such as 500kb or 5MB';
+  },
+  allowPackWarnings: isBoolean,
+  branches: (value) =>
+    Array.isArray(value) && value.every((item) => typeof item === 'string')
+      ? null
+      : 'expected an array of strings',
+  gitChecks: isBoolean,
+  release: oneOf(RELEASE_MODES),
+  releaseApiUrl: isString,
+  json: isBoolean,
+  report: isString,
+  hooks: (value) => validateHooks(value, HOOK_NAMES, true),
+};
+
+export function validateConfig(raw: unknown, source: string): PubzConfig {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(`Invalid config in ${source}: expected an object`);
+  }
+
+  const problems: string[] = [];
+  let hasUnknownKeys = false;
+
+  for (const [key, value] of Object.entries(raw)) {
+    if (!Object.hasOwn(CONFIG_SCHEMA, key)) {
+      problems.push(`unknown key "${key}"`);
+      hasUnknownKeys = true;
+      continue;
+    }
+    const error = CONFIG_SCHEMA[key as keyof PubzConfig](value);
+    if (error) {
+      problems.push(`"${key}" ${error}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    const hint = hasUnknownKeys
+      ? `\n\nValid keys: ${Object.keys(CONFIG_SCHEMA).join(', ')}`
+      : '';
+    throw new Error(
+      `Invalid config in ${source}:\n${problems.map((p) => `  - ${p}`).join('\n')}${hint}`,
+    );
+  }
+
+  return raw as PubzConfig;
+}
+
+/**
+ * Load pubz config from `pubz.config.json`, falling back to the `"pubz"` key
+ * in the root package.json.
+ */
+export async function loadConfig(cwd: string): Promise<LoadedConfig> {
+  const configPath = join(cwd, CONFIG_FILE_NAME);
+
+  if (await fileExists(configPath)) {
+    const content = await readFile(configPath, 'utf-8');
+    let raw: unknown;
+    try {
+      raw = JSON.parse(content);
+    } catch (error) {
+      throw new Error(
+        `Failed to parse ${CONFIG_FILE_NAME}: ${(error as Error).message}`,
+      );
+    }
+    return {
+      config: validateConfig(raw, CONFIG_FILE_NAME),
+      source: CONFIG_FILE_NAME,
+    };
+  }
+
+  const packageJsonPath = join(cwd, 'package.json');
+  if (await fileExists(packageJsonPath)) {
+    const content = await readFile(packageJsonPath, 'utf-8');
+    const packageJson = JSON.parse(content) as PackageJson;
+    if (packageJson.pubz !== undefined) {
+      const source = 'package.json "pubz" key';
+      return {
+        config: validateConfig(packageJson.pubz, source),
+        source,
+      };
+    }
+  }
+
+  return { config: {}, source: null };
+}
+
+/**
+ * Merge options in order of precedence: CLI flags, then config, then defaults.
+ * CLI values are checked against the same schema as the config file.
+ */
+export function resolveOptions(
+  config: PubzConfig,
+  cliOptions: Partial<PublishOptions>,
+): PublishOptions {
+  validateConfig(cliOptions, 'command-line flags');
+  const options = { ...DEFAULT_OPTIONS, ...config, ...cliOptions };
+
+  if (
+    options.independent &&
+    options.tagFormat &&
+    !options.tagFormat.includes('{name}')
+  ) {
+    throw new Error(
+      `"tagFormat" must contain the {name} placeholder with independent versioning, since each package is tagged separately (got "${options.tagFormat}")`,
+    );
+  }
+
+  return options;
+}
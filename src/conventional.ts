@@ -0,0 +1,66 @@
+import type { GitCommit } from './git.js';
+import type { VersionBumpType } from './types.js';
+
+export interface ConventionalCommit extends GitCommit {
+  type: string;
+  scope: string | null;
+  description: string;
+  breaking: boolean;
+}
+
+export interface BumpRecommendation {
+  bumpType: VersionBumpType;
+  /** Commits that determined the bump type */
+  reasons: ConventionalCommit[];
+}
+
+const HEADER_PATTERN = /^(\w+)(?:\(([^)]*)\))?(!)?:\s*(.+)$/;
+const BREAKING_PATTERN = /^BREAKING[ -]CHANGE:/m;
+
+export function parseConventionalCommit(
+  commit: GitCommit,
+): ConventionalCommit | null {
+  const match = HEADER_PATTERN.exec(commit.subject);
+  if (!match) {
+    return null;
+  }
+
+  const [, type, scope, bang, description] = match;
+  return {
+    ...commit,
+    type: type.toLowerCase(),
+    scope: scope || null,
+    description,
+    breaking: bang === '!' || BREAKING_PATTERN.test(commit.body),
+  };
+}
+
+/**
+ * Recommend a bump from Conventional Commits: breaking changes are major,
+ * `feat` is minor and anything else is patch. No commits at all means there
+ * is nothing to release.
+ */
+export function recommendBump(commits: GitCommit[]): BumpRecommendation {
+  if (commits.length === 0) {
+    return { bumpType: 'none', reasons: [] };
+  }
+
+  const parsed = commits
+    .map(parseConventionalCommit)
+    .filter((c): c is ConventionalCommit => c !== null);
+
+  const breaking = parsed.filter((c) => c.breaking);
+  if (breaking.length > 0) {
+    return { bumpType: 'major', reasons: breaking };
+  }
+
+  const features = parsed.filter((c) => c.type === 'feat');
+  if (features.length > 0) {
+    return { bumpType: 'minor', reasons: features };
+  }
+
+  return {
+    bumpType: 'patch',
+    reasons: parsed.filter((c) => c.type === 'fix'),
+  };
+}
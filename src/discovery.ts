@@ -1,17 +1,16 @@
-import { readFile, readdir, stat } from 'node:fs/promises';
+import { readFile, readdir } from 'node:fs/promises';
 import { join, resolve } from 'node:path';
-import { glob } from './glob.js';
-import type { DiscoveredPackage, PackageJson } from './types.js';
+import { fileExists, readJsonFile } from './fs.js';
+import { globWorkspaces } from './glob.js';
+import type {
+  DiscoveredPackage,
+  DiscoverySource,
+  PackageJson,
+} from './types.js';
 
 export async function findRootPackageJson(cwd: string): Promise<string | null> {
   const packageJsonPath = join(cwd, 'package.json');
-
-  try {
-    await stat(packageJsonPath);
-    return packageJsonPath;
-  } catch {
-    return null;
-  }
+  return (await fileExists(packageJsonPath)) ? packageJsonPath : null;
 }
 
 export async function readPackageJson(path: string): Promise<PackageJson> {
@@ -31,6 +30,104 @@ function getWorkspacePatterns(packageJson: PackageJson): string[] {
   return packageJson.workspaces.packages || [];
 }
 
+/**
+ * Read the `packages` list from pnpm-workspace.yaml. Only the subset of YAML
+ * that file uses is supported: a block list or a flow list under
+ * `packages:`.
+ */
+export function parsePnpmWorkspace(content: string): string[] {
+  const patterns: string[] = [];
+  const unquote = (value: string) =>
+    value.trim().replace(/^(['"])(.*)\1$/, '$2');
+  let inPackages = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/\s+#.*$/, '').replace(/^#.*$/, '');
+    if (!line.trim()) continue;
+
+    const keyMatch = /^(\w[\w-]*):\s*(.*)$/.exec(line);
+    if (keyMatch) {
+      inPackages = keyMatch[1] === 'packages';
+      const inline = keyMatch[2].trim();
+      if (inPackages && inline.startsWith('[')) {
+        patterns.push(
+          ...inline
+            .replace(/^\[|\]$/g, '')
+            .split(',')
+            .map(unquote)
+            .filter(Boolean),
+        );
+        inPackages = false;
+      }
+      continue;
+    }
+
+    const itemMatch = /^\s*-\s*(.+)$/.exec(line);
+    if (inPackages && itemMatch) {
+      patterns.push(unquote(itemMatch[1]));
+    }
+  }
+
+  return patterns;
+}
+
+export interface WorkspaceSource {
+  source: DiscoverySource;
+  patterns: string[];
+}
+
+/**
+ * Find every workspace definition in the repository, in precedence order:
+ * pnpm-workspace.yaml, package.json `workspaces`, lerna.json, then the nx.json
+ * `workspaceLayout`. Only the first one is used for discovery.
+ */
+export async function findWorkspaceSources(
+  cwd: string,
+  rootPackageJson: PackageJson,
+): Promise<WorkspaceSource[]> {
+  const sources: WorkspaceSource[] = [];
+
+  try {
+    const content = await readFile(join(cwd, 'pnpm-workspace.yaml'), 'utf-8');
+    const patterns = parsePnpmWorkspace(content);
+    if (patterns.length > 0) {
+      sources.push({ source: 'pnpm-workspace.yaml', patterns });
+    }
+  } catch {
+    // No pnpm workspace
+  }
+
+  const workspacePatterns = getWorkspacePatterns(rootPackageJson);
+  if (workspacePatterns.length > 0) {
+    sources.push({ source: 'package.json', patterns: workspacePatterns });
+  }
+
+  const lerna = await readJsonFile<{ packages?: string[] }>(
+    join(cwd, 'lerna.json'),
+  );
+  if (lerna) {
+    // Lerna defaults to packages/* when no list is given
+    sources.push({
+      source: 'lerna.json',
+      patterns: lerna.packages?.length ? lerna.packages : ['packages/*'],
+    });
+  }
+
+  const nx = await readJsonFile<{
+    workspaceLayout?: { appsDir?: string; libsDir?: string };
+  }>(join(cwd, 'nx.json'));
+  // Without a workspaceLayout, nx.json says nothing about where packages are
+  if (nx?.workspaceLayout) {
+    const { appsDir = 'apps', libsDir = 'libs' } = nx.workspaceLayout;
+    sources.push({
+      source: 'nx.json',
+      patterns: [...new Set([`${libsDir}/*`, `${appsDir}/*`])],
+    });
+  }
+
+  return sources;
+}
+
 export async function discoverPackages(
   cwd: string,
 ): Promise<DiscoveredPackage[]> {
@@ -41,29 +138,35 @@ export async function discoverPackages(
   }
 
   const rootPackageJson = await readPackageJson(rootPackageJsonPath);
-  const workspacePatterns = getWorkspacePatterns(rootPackageJson);
+  const [workspace] = await findWorkspaceSources(cwd, rootPackageJson);
 
   let packageDirs: string[] = [];
+  let source: DiscoverySource;
 
-  if (workspacePatterns.length > 0) {
-    // Use workspace patterns from package.json
-    for (const pattern of workspacePatterns) {
-      const matches = await glob(pattern, cwd);
-      packageDirs.push(...matches);
-    }
+  if (workspace) {
+    source = workspace.source;
+    packageDirs = await globWorkspaces(workspace.patterns, cwd);
   } else {
     // Fallback: look for packages/ directory
+    source = 'packages/';
     const packagesDir = join(cwd, 'packages');
     try {
       const entries = await readdir(packagesDir, { withFileTypes: true });
       packageDirs = entries
         .filter((entry) => entry.isDirectory())
-        .map((entry) => join('packages', entry.name));
+        .map((entry) => join('packages', entry.name))
+        .sort();
     } catch {
       // No packages directory, treat root as single package
       if (!rootPackageJson.private) {
         return [
-          await packageFromPath(cwd, rootPackageJsonPath, rootPackageJson, []),
+          await packageFromPath(
+            cwd,
+            rootPackageJsonPath,
+            rootPackageJson,
+            [],
+            'root',
+          ),
         ];
       }
       return [];
@@ -81,7 +184,9 @@ export async function discoverPackages(
     try {
       const pkgJson = await readPackageJson(pkgJsonPath);
       packageNames.add(pkgJson.name);
-      packages.push(await packageFromPath(pkgPath, pkgJsonPath, pkgJson, []));
+      packages.push(
+        await packageFromPath(pkgPath, pkgJsonPath, pkgJson, [], source),
+      );
     } catch {
       // Skip directories without package.json
     }
@@ -100,6 +205,7 @@ async function packageFromPath(
   packageJsonPath: string,
   packageJson: PackageJson,
   localDependencies: string[],
+  source: DiscoverySource,
 ): Promise<DiscoveredPackage> {
   return {
     name: packageJson.name,
@@ -108,6 +214,8 @@ async function packageFromPath(
     packageJsonPath,
     isPrivate: packageJson.private === true,
     localDependencies,
+    source,
+    publishConfig: packageJson.publishConfig ?? {},
   };
 }
 
@@ -138,16 +246,40 @@ function findLocalDependencies(
   return deps;
 }
 
-export function sortByDependencyOrder(
-  packages: DiscoveredPackage[],
-): DiscoveredPackage[] {
+interface DependencyWalk {
+  sorted: DiscoveredPackage[];
+  cycles: string[][];
+}
+
+/**
+ * Depth-first walk over local dependencies. Dependencies come before their
+ * dependents in `sorted`; an edge that closes a cycle is recorded in
+ * `cycles` and otherwise ignored.
+ */
+function walkDependencies(packages: DiscoveredPackage[]): DependencyWalk {
   const packageMap = new Map(packages.map((p) => [p.name, p]));
   const sorted: DiscoveredPackage[] = [];
+  const cycles: string[][] = [];
+  const seenCycles = new Set<string>();
   const visited = new Set<string>();
+  // Packages on the current path, to detect back edges
+  const path: string[] = [];
 
   function visit(pkg: DiscoveredPackage) {
+    const index = path.indexOf(pkg.name);
+    if (index !== -1) {
+      const cycle = path.slice(index);
+      // Report each cycle once, whichever package it was entered from
+      const key = [...cycle].sort().join(',');
+      if (!seenCycles.has(key)) {
+        seenCycles.add(key);
+        cycles.push([...cycle, pkg.name]);
+      }
+      return;
+    }
     if (visited.has(pkg.name)) return;
     visited.add(pkg.name);
+    path.push(pkg.name);
 
     // Visit dependencies first
     for (const depName of pkg.localDependencies) {
@@ -157,6 +289,7 @@ export function sortByDependencyOrder(
       }
     }
 
+    path.pop();
     sorted.push(pkg);
   }
 
@@ -164,5 +297,50 @@ export function sortByDependencyOrder(
     visit(pkg);
   }
 
-  return sorted;
+  return { sorted, cycles };
+}
+
+export function sortByDependencyOrder(
+  packages: DiscoveredPackage[],
+): DiscoveredPackage[] {
+  return walkDependencies(packages).sorted;
+}
+
+/**
+ * Find circular dependencies between `packages`. Each cycle is returned as
+ * a path that starts and ends with the same package, e.g. `[a, b, a]`.
+ */
+export function findDependencyCycles(
+  packages: DiscoveredPackage[],
+): string[][] {
+  return walkDependencies(packages).cycles;
+}
+
+/**
+ * Group packages into dependency levels: level 0 has no local dependencies
+ * in `packages`, and every other package only depends on packages in
+ * earlier levels, so each level can be published in parallel.
+ */
+export function groupByDependencyLevel(
+  packages: DiscoveredPackage[],
+): DiscoveredPackage[][] {
+  const levels: DiscoveredPackage[][] = [];
+  const levelOf = new Map<string, number>();
+
+  for (const pkg of sortByDependencyOrder(packages)) {
+    let level = 0;
+    for (const depName of pkg.localDependencies) {
+      // Dependencies without a level yet close a cycle and are ignored, as
+      // in the sort
+      const depLevel = levelOf.get(depName);
+      if (depLevel !== undefined) {
+        level = Math.max(level, depLevel + 1);
+      }
+    }
+    levelOf.set(pkg.name, level);
+    levels[level] ??= [];
+    levels[level].push(pkg);
+  }
+
+  return levels;
 }
@@ -0,0 +1,235 @@
+import { spawn } from 'node:child_process';
+import { rm } from 'node:fs/promises';
+import { join } from 'node:path';
+
+export interface GitResult {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Run a git command without echoing its output, for read-only queries.
+ */
+export function git(args: string[], cwd: string): Promise<GitResult> {
+  return new Promise((resolve) => {
+    const proc = spawn('git', args, {
+      cwd,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    let stdout = '';
+    let stderr = '';
+
+    proc.stdout?.on('data', (data) => {
+      stdout += data.toString();
+    });
+
+    proc.stderr?.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    proc.on('error', (error) => {
+      resolve({ code: 1, stdout, stderr: stderr + error.message });
+    });
+
+    proc.on('close', (code) => {
+      resolve({ code: code ?? 1, stdout, stderr });
+    });
+  });
+}
+
+/**
+ * Find the most recent tag reachable from `ref` (HEAD by default) that
+ * matches `pattern` (a glob, e.g. `v*` or `@scope/pkg@*`).
+ */
+export async function findLastTag(
+  pattern: string,
+  cwd: string,
+  ref = 'HEAD',
+): Promise<string | null> {
+  const result = await git(
+    ['describe', '--tags', '--abbrev=0', '--match', pattern, ref],
+    cwd,
+  );
+  if (result.code !== 0) {
+    return null;
+  }
+  return result.stdout.trim() || null;
+}
+
+/**
+ * List files under `path` that changed between `ref` and HEAD.
+ */
+export async function getChangedFiles(
+  ref: string,
+  path: string,
+  cwd: string,
+): Promise<string[]> {
+  const result = await git(
+    ['diff', '--name-only', `${ref}..HEAD`, '--', path],
+    cwd,
+  );
+  if (result.code !== 0) {
+    throw new Error(`git diff failed: ${result.stderr.trim()}`);
+  }
+  return result.stdout.split('\n').filter(Boolean);
+}
+
+export interface GitCommit {
+  hash: string;
+  subject: string;
+  body: string;
+}
+
+/**
+ * List commits since `ref` (or all history if null) up to `until` that
+ * touch any of `paths`, newest first.
+ */
+export async function getCommitsSince(
+  ref: string | null,
+  paths: string[],
+  cwd: string,
+  until = 'HEAD',
+): Promise<GitCommit[]> {
+  const range = ref ? `${ref}..${until}` : until;
+  const result = await git(
+    ['log', '--format=%H%x1f%s%x1f%b%x1e', range, '--', ...paths],
+    cwd,
+  );
+  if (result.code !== 0) {
+    return [];
+  }
+
+  return result.stdout
+    .split('\x1e')
+    .map((record) => record.trim())
+    .filter(Boolean)
+    .map((record) => {
+      const [hash, subject, body] = record.split('\x1f');
+      return { hash, subject, body: body?.trim() ?? '' };
+    });
+}
+
+/**
+ * URL of a git remote, or null if it is not configured.
+ */
+export async function getRemoteUrl(
+  remote: string,
+  cwd: string,
+): Promise<string | null> {
+  const result = await git(['remote', 'get-url', remote], cwd);
+  if (result.code !== 0) {
+    return null;
+  }
+  return result.stdout.trim() || null;
+}
+
+export interface ExistingTag {
+  location: 'local' | 'origin';
+  commit: string;
+}
+
+/**
+ * Look up a tag locally and on the `origin` remote. Returns where it was
+ * found and the commit it points at, or null if it does not exist.
+ */
+export async function findExistingTag(
+  tagName: string,
+  cwd: string,
+): Promise<ExistingTag | null> {
+  const local = await git(
+    ['rev-parse', '--quiet', '--verify', `refs/tags/${tagName}^{commit}`],
+    cwd,
+  );
+  if (local.code === 0) {
+    return { location: 'local', commit: local.stdout.trim() };
+  }
+
+  // Annotated tags are listed twice; the peeled `^{}` line has the commit
+  const remote = await git(
+    ['ls-remote', '--tags', 'origin', `refs/tags/${tagName}`],
+    cwd,
+  );
+  if (remote.code !== 0) {
+    return null;
+  }
+  const lines = remote.stdout.split('\n').filter(Boolean);
+  const line = lines.find((l) => l.endsWith('^{}')) ?? lines[0];
+  return line ? { location: 'origin', commit: line.split('\t')[0] } : null;
+}
+
+/**
+ * Name of the checked out branch, or null on a detached HEAD.
+ */
+export async function getCurrentBranch(cwd: string): Promise<string | null> {
+  const result = await git(['symbolic-ref', '--short', '--quiet', 'HEAD'], cwd);
+  if (result.code !== 0) {
+    return null;
+  }
+  return result.stdout.trim() || null;
+}
+
+export interface UpstreamStatus {
+  upstream: string;
+  ahead: number;
+  behind: number;
+}
+
+/**
+ * Fetch `remote` and compare HEAD with the branch's upstream. Returns null
+ * if the branch has no upstream; throws if the fetch fails.
+ */
+export async function getUpstreamStatus(
+  remote: string,
+  cwd: string,
+): Promise<UpstreamStatus | null> {
+  const fetch = await git(['fetch', '--quiet', remote], cwd);
+  if (fetch.code !== 0) {
+    throw new Error(`git fetch ${remote} failed: ${fetch.stderr.trim()}`);
+  }
+
+  const upstream = await git(
+    ['rev-parse', '--abbrev-ref', '--symbolic-full-name', '@{upstream}'],
+    cwd,
+  );
+  if (upstream.code !== 0) {
+    return null;
+  }
+
+  const counts = await git(
+    ['rev-list', '--left-right', '--count', 'HEAD...@{upstream}'],
+    cwd,
+  );
+  const [ahead, behind] = counts.stdout.trim().split(/\s+/).map(Number);
+  return { upstream: upstream.stdout.trim(), ahead, behind };
+}
+
+/**
+ * SHA of the commit HEAD points at, or null outside a repository.
+ */
+export async function getHeadCommit(cwd: string): Promise<string | null> {
+  const result = await git(['rev-parse', 'HEAD'], cwd);
+  if (result.code !== 0) {
+    return null;
+  }
+  return result.stdout.trim() || null;
+}
+
+/**
+ * Put files back the way they are at HEAD: files HEAD has are checked out
+ * again, the others are deleted.
+ */
+export async function restoreFiles(
+  files: string[],
+  cwd: string,
+): Promise<void> {
+  for (const file of files) {
+    const tracked = await git(['cat-file', '-e', `HEAD:./${file}`], cwd);
+    if (tracked.code === 0) {
+      await git(['checkout', 'HEAD', '--', file], cwd);
+    } else {
+      await rm(join(cwd, file), { force: true });
+    }
+  }
+}
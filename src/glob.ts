@@ -1,41 +1,263 @@
-import { readdir, stat } from 'node:fs/promises';
+import type { Dirent } from 'node:fs';
+import { readdir } from 'node:fs/promises';
 import { join } from 'node:path';
+import { fileExists } from './fs.js';
 
-export async function glob(pattern: string, cwd: string): Promise<string[]> {
-  // Simple glob implementation for workspace patterns
-  // Supports: packages/*, packages/**, src/*
-  const results: string[] = [];
+// Directories that never contain workspace packages
+const IGNORED_DIRS = new Set(['node_modules', '.git']);
 
-  // Remove trailing /* or /**
-  const basePattern = pattern.replace(/\/\*\*?$/, '');
-  const isRecursive = pattern.endsWith('/**');
+const MAGIC_CHARS = /[*?[]/;
 
-  const basePath = join(cwd, basePattern);
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
 
-  try {
-    const entries = await readdir(basePath, { withFileTypes: true });
+/**
+ * Split `value` on commas that are not nested inside braces.
+ */
+function splitTopLevel(value: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
 
-    for (const entry of entries) {
-      if (entry.isDirectory()) {
-        const entryPath = join(basePattern, entry.name);
-        const fullPath = join(cwd, entryPath);
-
-        // Check if this directory has a package.json
-        try {
-          await stat(join(fullPath, 'package.json'));
-          results.push(entryPath);
-        } catch {
-          // No package.json, skip unless recursive
-          if (isRecursive) {
-            const subResults = await glob(`${entryPath}/*`, cwd);
-            results.push(...subResults);
-          }
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\') {
+      current += char + (value[i + 1] ?? '');
+      i++;
+      continue;
+    }
+    if (char === '{') depth++;
+    if (char === '}') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Expand brace alternatives: `{apps,libs}/*` -> `apps/*`, `libs/*`.
+ * Braces without a comma are kept literally.
+ */
+export function expandBraces(pattern: string): string[] {
+  let depth = 0;
+  let start = -1;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+      continue;
+    }
+    if (char === '{') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (char === '}' && depth > 0) {
+      depth--;
+      if (depth === 0) {
+        const alternatives = splitTopLevel(pattern.slice(start + 1, i));
+        if (alternatives.length > 1) {
+          const before = pattern.slice(0, start);
+          const after = pattern.slice(i + 1);
+          return alternatives.flatMap((alternative) =>
+            expandBraces(before + alternative + after),
+          );
         }
       }
     }
-  } catch {
-    // Directory doesn't exist
   }
 
+  return [pattern];
+}
+
+/**
+ * Compile one path segment: `*` and `?` never match `/`, and `[...]` is a
+ * character class (`[!...]` or `[^...]` negates it).
+ */
+function segmentToRegExp(segment: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i];
+
+    if (char === '\\' && i + 1 < segment.length) {
+      source += escapeRegExp(segment[++i]);
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const negated = segment[i + 1] === '!' || segment[i + 1] === '^';
+      const bodyStart = negated ? i + 2 : i + 1;
+      // A `]` right after the opening bracket is part of the class
+      const end = segment.indexOf(']', bodyStart + 1);
+      if (end === -1) {
+        source += '\\[';
+        continue;
+      }
+      const body = segment.slice(bodyStart, end).replace(/[\\\]]/g, '\\$&');
+      source += `[${negated ? '^' : ''}${body}]`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+function splitPath(path: string): string[] {
+  return path
+    .replace(/\\/g, '/')
+    .replace(/^\.\//, '')
+    .split('/')
+    .filter((segment) => segment !== '' && segment !== '.');
+}
+
+function matchSegment(pattern: string, segment: string): boolean {
+  // Wildcards do not match dotfiles unless the pattern starts with a dot
+  if (segment.startsWith('.') && !pattern.startsWith('.')) {
+    return false;
+  }
+  return segmentToRegExp(pattern).test(segment);
+}
+
+function matchSegments(pattern: string[], path: string[]): boolean {
+  if (pattern.length === 0) {
+    return path.length === 0;
+  }
+
+  const [head, ...rest] = pattern;
+
+  if (head === '**') {
+    // `**` matches zero or more segments
+    for (let i = 0; i <= path.length; i++) {
+      if (i > 0 && path[i - 1].startsWith('.')) break;
+      if (matchSegments(rest, path.slice(i))) return true;
+    }
+    return false;
+  }
+
+  return (
+    path.length > 0 &&
+    matchSegment(head, path[0]) &&
+    matchSegments(rest, path.slice(1))
+  );
+}
+
+/**
+ * Whether a directory could contain matches further down, so the walk can
+ * skip subtrees that cannot match.
+ */
+function couldMatchBelow(pattern: string[], path: string[]): boolean {
+  for (let i = 0; i < path.length; i++) {
+    if (i >= pattern.length) return false;
+    if (pattern[i] === '**') return true;
+    if (!matchSegment(pattern[i], path[i])) return false;
+  }
+  return path.length < pattern.length;
+}
+
+/**
+ * Test a relative path against a glob pattern. Supports `*`, `?`, `**`,
+ * character classes and brace expansion.
+ */
+export function matchPath(pattern: string, path: string): boolean {
+  const pathSegments = splitPath(path);
+  return expandBraces(pattern).some((expanded) =>
+    matchSegments(splitPath(expanded), pathSegments),
+  );
+}
+
+async function globExpanded(pattern: string, cwd: string): Promise<string[]> {
+  const segments = splitPath(pattern);
+
+  // Start walking from the longest prefix without wildcards
+  const magicIndex = segments.findIndex(
+    (segment) => segment === '**' || MAGIC_CHARS.test(segment),
+  );
+  const baseSegments =
+    magicIndex === -1 ? segments : segments.slice(0, magicIndex);
+
+  if (magicIndex === -1) {
+    const path = baseSegments.join('/');
+    return (await fileExists(join(cwd, path, 'package.json'))) ? [path] : [];
+  }
+
+  const results: string[] = [];
+
+  const walk = async (dirSegments: string[]) => {
+    let entries: Dirent[];
+    try {
+      entries = await readdir(join(cwd, ...dirSegments), {
+        withFileTypes: true,
+      });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (!entry.isDirectory() || IGNORED_DIRS.has(entry.name)) continue;
+
+      const entrySegments = [...dirSegments, entry.name];
+      if (
+        matchSegments(segments, entrySegments) &&
+        (await fileExists(join(cwd, ...entrySegments, 'package.json')))
+      ) {
+        results.push(entrySegments.join('/'));
+      }
+      if (couldMatchBelow(segments, entrySegments)) {
+        await walk(entrySegments);
+      }
+    }
+  };
+
+  await walk(baseSegments);
   return results;
 }
+
+/**
+ * Find package directories (relative to `cwd`) matching a workspace pattern.
+ * Only directories containing a package.json are returned, `node_modules` is
+ * never searched, and results are sorted.
+ */
+export async function glob(pattern: string, cwd: string): Promise<string[]> {
+  const results = new Set<string>();
+  for (const expanded of expandBraces(pattern)) {
+    for (const match of await globExpanded(expanded, cwd)) {
+      results.add(match);
+    }
+  }
+  return [...results].sort();
+}
+
+/**
+ * Resolve a list of workspace patterns. Entries starting with `!` exclude
+ * matching directories, regardless of their position in the list.
+ */
+export async function globWorkspaces(
+  patterns: string[],
+  cwd: string,
+): Promise<string[]> {
+  const include = patterns.filter((p) => !p.startsWith('!'));
+  const exclude = patterns
+    .filter((p) => p.startsWith('!'))
+    .map((p) => p.slice(1));
+
+  const results = new Set<string>();
+  for (const pattern of include) {
+    for (const match of await glob(pattern, cwd)) {
+      results.add(match);
+    }
+  }
+
+  return [...results]
+    .filter((path) => !exclude.some((pattern) => matchPath(pattern, path)))
+    .sort();
+}
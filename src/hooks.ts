@@ -0,0 +1,161 @@
+import { spawn } from 'node:child_process';
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type {
+  DiscoveredPackage,
+  HookCommand,
+  HookName,
+  PackageHookName,
+} from './types.js';
+
+export const PACKAGE_HOOK_NAMES: PackageHookName[] = [
+  'preVersion',
+  'postVersion',
+  'preBuild',
+  'postBuild',
+  'prePublish',
+  'postPublish',
+];
+
+export const HOOK_NAMES: HookName[] = [...PACKAGE_HOOK_NAMES, 'postTag'];
+
+export interface HookPackage {
+  name: string;
+  path: string;
+  /** Version before the bump, or null if unknown (resumed release) */
+  previousVersion: string | null;
+  version: string;
+}
+
+/** What a hook is told about the release */
+export interface HookContext {
+  hook: HookName;
+  /** Repository root */
+  cwd: string;
+  dryRun: boolean;
+  /** The run's registry; null before it is chosen (version hooks) */
+  registry: string | null;
+  packages: HookPackage[];
+  /** The package a per-package hook runs for, otherwise null */
+  package: HookPackage | null;
+  /** Planned git tags, or for `postTag` the tags that were created */
+  tags: string[];
+}
+
+export interface HookResult {
+  success: boolean;
+  error?: string;
+}
+
+export function toHookPackage(
+  pkg: DiscoveredPackage,
+  previousVersion: string | null,
+  version = pkg.version,
+): HookPackage {
+  return { name: pkg.name, path: pkg.path, previousVersion, version };
+}
+
+/**
+ * A single path ending in .js, .mjs or .cjs is loaded as a module; anything
+ * else runs in the shell.
+ */
+export function isModuleHook(command: string): boolean {
+  return !/\s/.test(command) && /\.[cm]?js$/.test(command);
+}
+
+/**
+ * Run a shell hook in the package directory (per-package hooks) or the
+ * repository root, with the context in `PUBZ_*` environment variables.
+ */
+function runShellHook(
+  command: string,
+  context: HookContext,
+): Promise<HookResult> {
+  const env: Record<string, string> = {
+    ...(process.env as Record<string, string>),
+    PUBZ_HOOK: context.hook,
+    PUBZ_REGISTRY: context.registry ?? '',
+    PUBZ_CONTEXT: JSON.stringify(context),
+  };
+  if (context.package) {
+    env.PUBZ_PACKAGE_NAME = context.package.name;
+    env.PUBZ_PACKAGE_PATH = context.package.path;
+    env.PUBZ_PREVIOUS_VERSION = context.package.previousVersion ?? '';
+    env.PUBZ_VERSION = context.package.version;
+  }
+
+  return new Promise((resolvePromise) => {
+    const proc = spawn(command, {
+      cwd: context.package?.path ?? context.cwd,
+      env,
+      shell: true,
+      stdio: ['inherit', 'pipe', 'pipe'],
+    });
+
+    proc.stdout?.on('data', (data) => process.stdout.write(data));
+    proc.stderr?.on('data', (data) => process.stderr.write(data));
+
+    proc.on('error', (error) => {
+      resolvePromise({ success: false, error: error.message });
+    });
+
+    proc.on('close', (code) => {
+      resolvePromise(
+        code === 0
+          ? { success: true }
+          : { success: false, error: `exited with code ${code ?? 1}` },
+      );
+    });
+  });
+}
+
+async function runModuleHook(
+  path: string,
+  context: HookContext,
+): Promise<HookResult> {
+  try {
+    const module = await import(pathToFileURL(resolve(context.cwd, path)).href);
+    if (typeof module.default !== 'function') {
+      return { success: false, error: 'the module has no default export' };
+    }
+    await module.default(context);
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+/**
+ * Run the commands configured for a hook, in order, stopping at the first
+ * failure. A dry run only lists them.
+ */
+export async function runHook(
+  commands: HookCommand | undefined,
+  context: HookContext,
+): Promise<HookResult> {
+  if (!commands) return { success: true };
+
+  const label = context.package
+    ? `${context.hook} hook for ${context.package.name}`
+    : `${context.hook} hook`;
+
+  for (const command of Array.isArray(commands) ? commands : [commands]) {
+    if (context.dryRun) {
+      console.log(`[DRY RUN] Would run ${label}: ${command}`);
+      continue;
+    }
+
+    console.log(`Running ${label}: ${command}`);
+    const result = isModuleHook(command)
+      ? await runModuleHook(command, context)
+      : await runShellHook(command, context);
+    if (!result.success) {
+      return {
+        success: false,
+        error: `${label} failed (${command}): ${result.error}`,
+      };
+    }
+  }
+
+  return { success: true };
+}
@@ -0,0 +1,118 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { DiscoveredPackage } from './types.js';
+
+/** Directory for pubz state, relative to the repository root */
+export const STATE_DIR = '.pubz';
+
+const JOURNAL_FILE = 'state.json';
+
+export type PackagePublishStatus = 'pending' | 'published' | 'failed';
+
+export interface JournalPackage {
+  name: string;
+  version: string;
+  /** Version before the bump, for the release report */
+  previousVersion?: string;
+  distTag: string;
+  status: PackagePublishStatus;
+  error?: string;
+}
+
+/**
+ * Record of a release in progress, written before publishing starts so an
+ * interrupted run can be continued with `pubz --resume`.
+ */
+export interface ReleaseJournal {
+  startedAt: string;
+  registry: string;
+  /** Whether packages were versioned independently */
+  independent: boolean;
+  /** Tag template the tag names were made from, with its default resolved */
+  tagFormat: string;
+  tagNames: string[];
+  /** Packages in publish order */
+  packages: JournalPackage[];
+}
+
+function journalPath(cwd: string): string {
+  return join(cwd, STATE_DIR, JOURNAL_FILE);
+}
+
+export function createJournal(
+  packages: DiscoveredPackage[],
+  registry: string,
+  distTags: Map<string, string>,
+  tagNames: string[],
+  previousVersions: Map<string, string>,
+  versioning: { independent: boolean; tagFormat: string },
+): ReleaseJournal {
+  return {
+    startedAt: new Date().toISOString(),
+    registry,
+    independent: versioning.independent,
+    tagFormat: versioning.tagFormat,
+    tagNames,
+    packages: packages.map((pkg) => ({
+      name: pkg.name,
+      version: pkg.version,
+      previousVersion: previousVersions.get(pkg.name),
+      distTag: distTags.get(pkg.name) ?? 'latest',
+      status: 'pending',
+    })),
+  };
+}
+
+export async function readJournal(cwd: string): Promise<ReleaseJournal | null> {
+  let content: string;
+  try {
+    content = await readFile(journalPath(cwd), 'utf-8');
+  } catch {
+    return null;
+  }
+
+  try {
+    return JSON.parse(content) as ReleaseJournal;
+  } catch (error) {
+    throw new Error(
+      `Failed to parse ${STATE_DIR}/${JOURNAL_FILE}: ${(error as Error).message}`,
+    );
+  }
+}
+
+// Writes are chained so concurrent status updates never interleave
+let pendingWrite: Promise<void> = Promise.resolve();
+
+export function writeJournal(
+  cwd: string,
+  journal: ReleaseJournal,
+): Promise<void> {
+  const content = `${JSON.stringify(journal, null, 2)}\n`;
+  pendingWrite = pendingWrite
+    .catch(() => {})
+    .then(async () => {
+      await mkdir(join(cwd, STATE_DIR), { recursive: true });
+      await writeFile(journalPath(cwd), content);
+    });
+  return pendingWrite;
+}
+
+export async function clearJournal(cwd: string): Promise<void> {
+  await pendingWrite.catch(() => {});
+  await rm(journalPath(cwd), { force: true });
+}
+
+export async function setPackageStatus(
+  cwd: string,
+  journal: ReleaseJournal,
+  name: string,
+  status: PackagePublishStatus,
+  error?: string,
+): Promise<void> {
+  const entry = journal.packages.find((p) => p.name === name);
+  if (!entry) return;
+
+  entry.status = status;
+  entry.error = error;
+  await writeJournal(cwd, journal);
+}
@@ -0,0 +1,108 @@
+/**
+ * Formatting of a JSON file, so it can be written back the way it was read.
+ */
+export interface JsonFormat {
+  indent: string;
+  newline: string;
+  trailingNewline: boolean;
+}
+
+export function detectJsonFormat(content: string): JsonFormat {
+  const indent = /^[{[][ \t]*\r?\n([ \t]+)\S/.exec(content)?.[1] ?? '  ';
+  const newline = content.includes('\r\n') ? '\r\n' : '\n';
+  return { indent, newline, trailingNewline: /\r?\n$/.test(content) };
+}
+
+export function stringifyJson(value: unknown, format: JsonFormat): string {
+  const json = JSON.stringify(value, null, format.indent).replace(
+    /\n/g,
+    format.newline,
+  );
+  return format.trailingNewline ? `${json}${format.newline}` : json;
+}
+
+/**
+ * Locate the text of the value at `path` (object keys, from the root) in
+ * JSON `content`. Returns the [start, end) offsets, or null if the path does
+ * not exist. `content` must be valid JSON.
+ */
+function findValueRange(
+  content: string,
+  path: string[],
+): [number, number] | null {
+  let pos = 0;
+  let found: [number, number] | null = null;
+
+  const skipWhitespace = () => {
+    while (/\s/.test(content[pos] ?? '')) pos++;
+  };
+
+  const skipString = () => {
+    pos++;
+    while (content[pos] !== '"') {
+      pos += content[pos] === '\\' ? 2 : 1;
+    }
+    pos++;
+  };
+
+  // `depth` is how much of `path` matched so far, or -1 off the path
+  const skipValue = (depth: number) => {
+    skipWhitespace();
+    const start = pos;
+    const char = content[pos];
+
+    if (char === '{') {
+      pos++;
+      skipWhitespace();
+      while (content[pos] !== '}') {
+        const keyStart = pos;
+        skipString();
+        const key = JSON.parse(content.slice(keyStart, pos)) as string;
+        skipWhitespace();
+        pos++; // :
+        const onPath = depth !== -1 && path[depth] === key;
+        skipValue(onPath ? depth + 1 : -1);
+        skipWhitespace();
+        if (content[pos] === ',') pos++;
+        skipWhitespace();
+      }
+      pos++;
+    } else if (char === '[') {
+      pos++;
+      skipWhitespace();
+      while (content[pos] !== ']') {
+        skipValue(-1);
+        skipWhitespace();
+        if (content[pos] === ',') pos++;
+        skipWhitespace();
+      }
+      pos++;
+    } else if (char === '"') {
+      skipString();
+    } else {
+      while (pos < content.length && !/[\s,}\]]/.test(content[pos])) pos++;
+    }
+
+    if (depth === path.length && !found) {
+      found = [start, pos];
+    }
+  };
+
+  skipValue(0);
+  return found;
+}
+
+/**
+ * Set the string at `path` by editing only that value in `content`, so the
+ * rest of the file keeps its formatting. Returns null if the path does not
+ * exist.
+ */
+export function setJsonString(
+  content: string,
+  path: string[],
+  value: string,
+): string | null {
+  const range = findValueRange(content, path);
+  if (!range) return null;
+  return `${content.slice(0, range[0])}${JSON.stringify(value)}${content.slice(range[1])}`;
+}
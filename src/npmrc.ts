@@ -0,0 +1,106 @@
+import { readFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+
+export type Npmrc = Record<string, string>;
+
+/**
+ * Parse `.npmrc` content. `${VAR}` references are replaced with environment
+ * variables, as npm does.
+ */
+export function parseNpmrc(content: string): Npmrc {
+  const config: Npmrc = {};
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) continue;
+
+    const separator = line.indexOf('=');
+    if (separator === -1) continue;
+
+    const key = line.slice(0, separator).trim();
+    let value = line.slice(separator + 1).trim();
+    if (
+      value.length >= 2 &&
+      (value.startsWith('"') || value.startsWith("'")) &&
+      value.endsWith(value[0])
+    ) {
+      value = value.slice(1, -1);
+    }
+
+    config[key] = value.replace(
+      /\$\{([^}]+)\}/g,
+      (_, name: string) => process.env[name] ?? '',
+    );
+  }
+
+  return config;
+}
+
+async function readNpmrc(path: string): Promise<Npmrc> {
+  try {
+    return parseNpmrc(await readFile(path, 'utf-8'));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Load npm config from the user `.npmrc` and the project `.npmrc` in `cwd`.
+ * Project values take precedence.
+ */
+export async function loadNpmrc(cwd: string): Promise<Npmrc> {
+  const userConfigPath =
+    process.env.NPM_CONFIG_USERCONFIG ??
+    process.env.npm_config_userconfig ??
+    join(homedir(), '.npmrc');
+
+  return {
+    ...(await readNpmrc(userConfigPath)),
+    ...(await readNpmrc(join(cwd, '.npmrc'))),
+  };
+}
+
+/**
+ * Registry URL reduced to the `//host/path/` form npm uses to scope
+ * credentials in `.npmrc`.
+ */
+function nerfDart(registry: string): string {
+  const url = new URL(registry);
+  const path = url.pathname.endsWith('/') ? url.pathname : `${url.pathname}/`;
+  return `//${url.host}${path}`;
+}
+
+/**
+ * Build the Authorization header for `registry` from `.npmrc` credentials,
+ * or null if none are configured. Credentials scoped to a parent path of the
+ * registry URL also apply.
+ */
+export function getAuthHeader(npmrc: Npmrc, registry: string): string | null {
+  let scope = nerfDart(registry);
+
+  while (scope.length > 2) {
+    const token = npmrc[`${scope}:_authToken`];
+    if (token) {
+      return `Bearer ${token}`;
+    }
+
+    const auth = npmrc[`${scope}:_auth`];
+    if (auth) {
+      return `Basic ${auth}`;
+    }
+
+    const username = npmrc[`${scope}:username`];
+    const password = npmrc[`${scope}:_password`];
+    if (username && password) {
+      const decoded = Buffer.from(password, 'base64').toString('utf-8');
+      const basic = Buffer.from(`${username}:${decoded}`).toString('base64');
+      return `Basic ${basic}`;
+    }
+
+    // Walk up to the parent path: //host/a/b/ -> //host/a/
+    scope = scope.replace(/[^/]+\/$/, '');
+  }
+
+  return null;
+}
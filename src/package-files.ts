@@ -0,0 +1,201 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { matchPath } from './glob.js';
+import type { PackageJson } from './types.js';
+
+/** A file a package.json field points at */
+export interface EntryPoint {
+  /** Field the target came from, e.g. `exports["./utils"].import` */
+  field: string;
+  /** Path relative to the package directory, without a leading `./` */
+  target: string;
+}
+
+type ExportsTarget = string | null | ExportsTarget[] | ExportsObject;
+interface ExportsObject {
+  [key: string]: ExportsTarget;
+}
+
+function normalizeTarget(target: string): string {
+  return target.replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+function collectExports(
+  value: ExportsTarget,
+  field: string,
+  entries: EntryPoint[],
+) {
+  if (typeof value === 'string') {
+    entries.push({ field, target: normalizeTarget(value) });
+  } else if (Array.isArray(value)) {
+    // Fallback arrays: every alternative should exist
+    value.forEach((item, index) => {
+      collectExports(item, `${field}[${index}]`, entries);
+    });
+  } else if (value && typeof value === 'object') {
+    // Both subpaths (`"./utils"`) and conditions (`"import"`) are nested keys
+    for (const [key, nested] of Object.entries(value)) {
+      collectExports(nested, `${field}[${JSON.stringify(key)}]`, entries);
+    }
+  }
+}
+
+/**
+ * Every file referenced by `main`, `module`, `browser`, `types`, `typings`,
+ * `bin`, the full `exports` tree and `typesVersions`. Targets may contain
+ * `*` for subpath patterns.
+ */
+export function collectEntryPoints(packageJson: PackageJson): EntryPoint[] {
+  const entries: EntryPoint[] = [];
+
+  for (const field of ['main', 'module', 'browser', 'types', 'typings']) {
+    const value = packageJson[field as keyof PackageJson];
+    if (typeof value === 'string') {
+      entries.push({ field, target: normalizeTarget(value) });
+    }
+  }
+
+  if (typeof packageJson.bin === 'string') {
+    entries.push({ field: 'bin', target: normalizeTarget(packageJson.bin) });
+  } else if (packageJson.bin) {
+    for (const [name, target] of Object.entries(packageJson.bin)) {
+      entries.push({
+        field: `bin[${JSON.stringify(name)}]`,
+        target: normalizeTarget(target),
+      });
+    }
+  }
+
+  if (packageJson.exports !== undefined) {
+    collectExports(packageJson.exports as ExportsTarget, 'exports', entries);
+  }
+
+  for (const [range, mappings] of Object.entries(
+    packageJson.typesVersions ?? {},
+  )) {
+    for (const [path, targets] of Object.entries(mappings)) {
+      targets.forEach((target, index) => {
+        entries.push({
+          field: `typesVersions[${JSON.stringify(range)}][${JSON.stringify(path)}][${index}]`,
+          target: normalizeTarget(target),
+        });
+      });
+    }
+  }
+
+  return entries;
+}
+
+// Files npm always packs, whatever `files` or `.npmignore` say
+const ALWAYS_INCLUDED = /^(package\.json|readme(\..*)?|licen[cs]e(\..*)?)$/i;
+
+interface IgnoreRule {
+  pattern: string;
+  negated: boolean;
+}
+
+function parseIgnoreFile(content: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const negated = line.startsWith('!');
+    let pattern = negated ? line.slice(1) : line;
+    pattern = pattern.replace(/\/+$/, '');
+
+    // Patterns without a slash match at any depth, others are anchored
+    pattern = pattern.includes('/')
+      ? pattern.replace(/^\//, '')
+      : `**/${pattern}`;
+    rules.push({ pattern, negated });
+  }
+
+  return rules;
+}
+
+/**
+ * Whether an ignore rule matches `path` or one of its parent directories.
+ */
+function matchesWithParents(pattern: string, path: string): boolean {
+  const segments = path.split('/');
+  return segments.some((_, index) =>
+    matchPath(pattern, segments.slice(0, index + 1).join('/')),
+  );
+}
+
+function isIgnored(rules: IgnoreRule[], path: string): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (matchesWithParents(rule.pattern, path)) {
+      ignored = !rule.negated;
+    }
+  }
+  return ignored;
+}
+
+function matchesFilesEntry(entry: string, path: string): boolean {
+  const pattern = normalizeTarget(entry).replace(/\/+$/, '');
+  // A directory entry includes everything below it
+  return matchPath(pattern, path) || matchPath(`${pattern}/**`, path);
+}
+
+async function readIgnoreRules(
+  packagePath: string,
+): Promise<{ source: string; rules: IgnoreRule[] } | null> {
+  // npm falls back to .gitignore when there is no .npmignore
+  for (const source of ['.npmignore', '.gitignore']) {
+    try {
+      const content = await readFile(join(packagePath, source), 'utf-8');
+      return { source, rules: parseIgnoreFile(content) };
+    } catch {}
+  }
+  return null;
+}
+
+/**
+ * Build a check that tells why a file would be left out of the tarball, or
+ * returns null if it is packed. Follows npm: `main` and `bin` are always
+ * packed, `files` takes precedence over a root `.npmignore`, and without
+ * either, `.gitignore` is used.
+ */
+export async function createTarballFilter(
+  packagePath: string,
+  packageJson: PackageJson,
+): Promise<(path: string) => string | null> {
+  const alwaysIncluded = new Set(
+    collectEntryPoints(packageJson)
+      .filter(({ field }) => field === 'main' || field.startsWith('bin'))
+      .map(({ target }) => target),
+  );
+
+  if (packageJson.files) {
+    const files = packageJson.files;
+    const include = files.filter((entry) => !entry.startsWith('!'));
+    const exclude = files
+      .filter((entry) => entry.startsWith('!'))
+      .map((entry) => entry.slice(1));
+
+    return (path) => {
+      if (alwaysIncluded.has(path) || ALWAYS_INCLUDED.test(path)) return null;
+      if (
+        !include.some((entry) => matchesFilesEntry(entry, path)) ||
+        exclude.some((entry) => matchesFilesEntry(entry, path))
+      ) {
+        return 'not listed in "files"';
+      }
+      return null;
+    };
+  }
+
+  const ignore = await readIgnoreRules(packagePath);
+
+  return (path) => {
+    if (alwaysIncluded.has(path) || ALWAYS_INCLUDED.test(path)) return null;
+    if (ignore && isIgnored(ignore.rules, path)) {
+      return `ignored by ${ignore.source}`;
+    }
+    return null;
+  };
+}
@@ -0,0 +1,40 @@
+import { join } from 'node:path';
+import { fileExists } from './fs.js';
+import type { PackageJson } from './types.js';
+
+export type PackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun';
+
+const PACKAGE_MANAGERS: PackageManager[] = ['npm', 'pnpm', 'yarn', 'bun'];
+
+// Checked in order; the first lockfile found wins
+const LOCKFILES: [string, PackageManager][] = [
+  ['bun.lock', 'bun'],
+  ['bun.lockb', 'bun'],
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['package-lock.json', 'npm'],
+  ['npm-shrinkwrap.json', 'npm'],
+];
+
+/**
+ * Detect the package manager of the repository at `cwd`: the
+ * `packageManager` field of the root package.json wins (e.g.
+ * `"pnpm@9.1.0"`), then the lockfile. Defaults to npm.
+ */
+export async function detectPackageManager(
+  cwd: string,
+  rootPackageJson: PackageJson | null,
+): Promise<PackageManager> {
+  const declared = rootPackageJson?.packageManager?.split('@')[0];
+  if (declared && PACKAGE_MANAGERS.includes(declared as PackageManager)) {
+    return declared as PackageManager;
+  }
+
+  for (const [lockfile, packageManager] of LOCKFILES) {
+    if (await fileExists(join(cwd, lockfile))) {
+      return packageManager;
+    }
+  }
+
+  return 'npm';
+}
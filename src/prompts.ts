@@ -1,29 +1,53 @@
 import * as readline from 'node:readline';
 import { bold, cyan, dim, green, muted, yellow } from './colors.js';
 
-const rl = readline.createInterface({
-  input: process.stdin,
-  output: process.stdout,
-});
+// Created on first use, so runs that never ask anything (e.g. --ci) do not
+// hold on to stdin
+let rl: readline.Interface | null = null;
 
-export function prompt(question: string): Promise<string> {
+function getInterface(): readline.Interface {
+  rl ??= readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  return rl;
+}
+
+/**
+ * Fail instead of waiting for an answer that can never be typed. `flag` is
+ * the command-line flag that answers the question up front, if there is one.
+ */
+function assertInteractive(question: string, flag?: string | null) {
+  if (process.stdin.isTTY) return;
+
+  const hint = flag ? ` Pass ${flag} to answer it up front.` : '';
+  throw new Error(
+    `Cannot ask "${question}" because stdin is not a terminal.${hint}`,
+  );
+}
+
+function ask(question: string): Promise<string> {
   return new Promise((resolve) => {
-    rl.question(question, (answer) => {
+    getInterface().question(question, (answer) => {
       resolve(answer.trim());
     });
   });
 }
 
 export function closePrompt(): void {
-  rl.close();
+  rl?.close();
+  rl = null;
 }
 
 export async function confirm(
   message: string,
   defaultYes = true,
+  flag: string | null = '--yes',
 ): Promise<boolean> {
+  assertInteractive(message, flag);
+
   const hint = defaultYes ? `[${bold('Y')}/n]` : `[y/${bold('N')}]`;
-  const answer = await prompt(`${cyan('?')} ${message} ${hint} `);
+  const answer = await ask(`${cyan('?')} ${message} ${hint} `);
 
   if (answer === '') {
     return defaultYes;
@@ -32,53 +56,154 @@ export async function confirm(
   return answer.toLowerCase() === 'y';
 }
 
+/**
+ * Ask for a line of text. `validate` returns an error message for invalid
+ * answers, and the question is repeated until the answer is valid.
+ */
+export async function input(
+  message: string,
+  options: {
+    defaultValue?: string;
+    validate?: (value: string) => string | null;
+    flag?: string;
+  } = {},
+): Promise<string> {
+  assertInteractive(message, options.flag);
+
+  const hint = options.defaultValue
+    ? ` ${muted(`(default: ${options.defaultValue})`)}`
+    : '';
+
+  for (;;) {
+    const answer =
+      (await ask(`${cyan('?')} ${message}${hint} `)) ||
+      (options.defaultValue ?? '');
+    const error = options.validate?.(answer) ?? null;
+    if (error === null) {
+      return answer;
+    }
+    console.log(yellow(`  ${error}`));
+  }
+}
+
+const CTRL_C = '\x03';
+const UP = ['\x1b[A', 'k'];
+const DOWN = ['\x1b[B', 'j'];
+
+/**
+ * Read keypresses in raw mode until `onKey` returns a result. Ctrl+C exits.
+ */
+function readKeys<T>(
+  onKey: (key: string) => { value: T } | undefined,
+): Promise<T> {
+  const reader = getInterface();
+  // Pause readline so we can use raw mode
+  reader.pause();
+
+  const stdin = process.stdin;
+  stdin.setRawMode(true);
+  stdin.resume();
+
+  return new Promise((resolve) => {
+    const stop = () => {
+      stdin.setRawMode(false);
+      stdin.removeListener('data', onData);
+      reader.resume();
+      console.log('');
+    };
+
+    const onData = (data: Buffer) => {
+      const key = data.toString();
+
+      if (key === CTRL_C) {
+        stop();
+        process.exit(0);
+      }
+
+      const result = onKey(key);
+      if (result) {
+        stop();
+        resolve(result.value);
+      }
+    };
+
+    stdin.on('data', onData);
+  });
+}
+
+function clearLines(count: number) {
+  for (let i = 0; i < count; i++) {
+    process.stdout.write('\x1b[A\x1b[2K');
+  }
+}
+
 export async function select<T extends string>(
   message: string,
   options: { label: string; value: T }[],
   defaultIndex = 0,
+  flag?: string,
 ): Promise<T> {
-  console.log(`${cyan('?')} ${message}`);
-  console.log('');
+  assertInteractive(message, flag);
 
-  for (let i = 0; i < options.length; i++) {
-    const marker = i === defaultIndex ? cyan('>') : ' ';
-    const num = dim(`${i + 1})`);
-    console.log(`  ${marker} ${num} ${options[i].label}`);
-  }
+  let cursor = defaultIndex;
 
-  console.log('');
-  const answer = await prompt(
-    `  Enter choice ${dim(`[1-${options.length}]`)} ${muted(`(default: ${defaultIndex + 1})`)}: `,
-  );
+  const render = (initial = false) => {
+    if (!initial) {
+      clearLines(options.length + 3);
+    }
 
-  if (answer === '') {
-    return options[defaultIndex].value;
-  }
+    console.log(`${cyan('?')} ${message}`);
+    console.log('');
 
-  const index = Number.parseInt(answer, 10) - 1;
-  if (index >= 0 && index < options.length) {
-    return options[index].value;
-  }
+    for (let i = 0; i < options.length; i++) {
+      const isCursor = i === cursor;
+      const pointer = isCursor ? cyan('>') : ' ';
+      const num = dim(`${i + 1})`);
+      const label = isCursor ? bold(options[i].label) : options[i].label;
+      console.log(`  ${pointer} ${num} ${label}`);
+    }
+
+    console.log('');
+    console.log(dim('  ↑/↓ navigate • 1-9 jump • enter confirm'));
+  };
+
+  render(true);
+
+  return readKeys((key) => {
+    if (key === '\r' || key === '\n') {
+      return { value: options[cursor].value };
+    }
+
+    if (UP.includes(key)) {
+      cursor = cursor > 0 ? cursor - 1 : options.length - 1;
+    } else if (DOWN.includes(key)) {
+      cursor = cursor < options.length - 1 ? cursor + 1 : 0;
+    } else if (/^[1-9]$/.test(key) && Number(key) <= options.length) {
+      cursor = Number(key) - 1;
+    } else {
+      return undefined;
+    }
 
-  console.log(yellow(`  Invalid choice. Using default: ${options[defaultIndex].label}`));
-  return options[defaultIndex].value;
+    render();
+    return undefined;
+  });
 }
 
 export async function multiSelect<T>(
   message: string,
-  options: { label: string; value: T }[],
+  options: { label: string; value: T; selected?: boolean }[],
   allSelectedByDefault = true,
+  flag?: string,
 ): Promise<T[]> {
-  const selected = new Set<number>(
-    allSelectedByDefault ? options.map((_, i) => i) : [],
-  );
-  let cursor = 0;
+  assertInteractive(message, flag);
 
-  const clearLines = (count: number) => {
-    for (let i = 0; i < count; i++) {
-      process.stdout.write('\x1b[A\x1b[2K');
+  const selected = new Set<number>();
+  for (let i = 0; i < options.length; i++) {
+    if (options[i].selected ?? allSelectedByDefault) {
+      selected.add(i);
     }
-  };
+  }
+  let cursor = 0;
 
   const render = (initial = false) => {
     if (!initial) {
@@ -98,83 +223,42 @@ export async function multiSelect<T>(
     }
 
     console.log('');
-    console.log(dim('  ↑/↓ navigate • space toggle • a all • n none • enter confirm'));
+    console.log(
+      dim('  ↑/↓ navigate • space toggle • a all • n none • enter confirm'),
+    );
   };
 
-  return new Promise((resolve) => {
-    render(true);
-
-    // Pause readline so we can use raw mode
-    rl.pause();
-
-    const stdin = process.stdin;
-    stdin.setRawMode(true);
-    stdin.resume();
+  render(true);
 
-    const onKeypress = (key: Buffer) => {
-      const str = key.toString();
-
-      // Ctrl+C
-      if (str === '\x03') {
-        stdin.setRawMode(false);
-        stdin.removeListener('data', onKeypress);
-        rl.resume();
-        console.log('');
-        process.exit(0);
-      }
-
-      // Enter
-      if (str === '\r' || str === '\n') {
-        stdin.setRawMode(false);
-        stdin.removeListener('data', onKeypress);
-        rl.resume();
-        console.log('');
-        resolve(options.filter((_, i) => selected.has(i)).map((o) => o.value));
-        return;
-      }
+  return readKeys((key) => {
+    if (key === '\r' || key === '\n') {
+      return {
+        value: options.filter((_, i) => selected.has(i)).map((o) => o.value),
+      };
+    }
 
+    if (key === ' ') {
       // Space - toggle selection
-      if (str === ' ') {
-        if (selected.has(cursor)) {
-          selected.delete(cursor);
-        } else {
-          selected.add(cursor);
-        }
-        render();
-        return;
-      }
-
-      // Up arrow
-      if (str === '\x1b[A' || str === 'k') {
-        cursor = cursor > 0 ? cursor - 1 : options.length - 1;
-        render();
-        return;
-      }
-
-      // Down arrow
-      if (str === '\x1b[B' || str === 'j') {
-        cursor = cursor < options.length - 1 ? cursor + 1 : 0;
-        render();
-        return;
+      if (selected.has(cursor)) {
+        selected.delete(cursor);
+      } else {
+        selected.add(cursor);
       }
-
-      // 'a' - select all
-      if (str === 'a') {
-        for (let i = 0; i < options.length; i++) {
-          selected.add(i);
-        }
-        render();
-        return;
-      }
-
-      // 'n' - select none
-      if (str === 'n') {
-        selected.clear();
-        render();
-        return;
+    } else if (UP.includes(key)) {
+      cursor = cursor > 0 ? cursor - 1 : options.length - 1;
+    } else if (DOWN.includes(key)) {
+      cursor = cursor < options.length - 1 ? cursor + 1 : 0;
+    } else if (key === 'a') {
+      for (let i = 0; i < options.length; i++) {
+        selected.add(i);
       }
-    };
+    } else if (key === 'n') {
+      selected.clear();
+    } else {
+      return undefined;
+    }
 
-    stdin.on('data', onKeypress);
+    render();
+    return undefined;
   });
 }
@@ -0,0 +1,104 @@
+/**
+ * Why `npm publish` failed:
+ * - `otp`: a one-time password is missing or has expired (EOTP)
+ * - `auth`: not logged in, or the token was rejected (E401, ENEEDAUTH)
+ * - `forbidden`: logged in, but not allowed to publish this (E403)
+ * - `not-found`: the scope does not exist or is not writable (E404)
+ * - `conflict`: the registry saw a conflicting publish (E409)
+ * - `unknown`: anything else
+ */
+export type PublishErrorKind =
+  | 'otp'
+  | 'auth'
+  | 'forbidden'
+  | 'not-found'
+  | 'conflict'
+  | 'unknown';
+
+export interface PublishError {
+  kind: PublishErrorKind;
+  message: string;
+}
+
+const KINDS_BY_CODE: Record<string, PublishErrorKind> = {
+  EOTP: 'otp',
+  E401: 'auth',
+  ENEEDAUTH: 'auth',
+  E403: 'forbidden',
+  E404: 'not-found',
+  E409: 'conflict',
+};
+
+// npm 7-9 prefix errors with `npm ERR!`, npm 10 with `npm error`
+const ERROR_LINE = /^npm (?:ERR!|error) (.*)$/gm;
+
+/**
+ * The npm error code and the first explanatory line of its output, such as
+ * `403 Forbidden - PUT https://registry.npmjs.org/pkg - ...`.
+ */
+function parseNpmOutput(output: string): { code?: string; detail?: string } {
+  let code: string | undefined;
+  let detail: string | undefined;
+
+  for (const [, line] of output.matchAll(ERROR_LINE)) {
+    const codeMatch = /^code (E\w+)$/.exec(line.trim());
+    if (codeMatch) {
+      code ??= codeMatch[1];
+    } else if (!detail && line.trim()) {
+      // npm repeats the status: `403 403 Forbidden - ...`
+      detail = line.trim().replace(/^(\d{3}) (?=\1 )/, '');
+    }
+  }
+
+  // Older npm versions only say this in prose
+  if (!code && /one-time pass/i.test(output)) {
+    code = 'EOTP';
+  }
+
+  return { code, detail };
+}
+
+/**
+ * Turn the output of a failed `npm publish` into an error kind and a message
+ * that says what to do about it.
+ */
+export function parsePublishError(
+  output: string,
+  name: string,
+  registry: string,
+): PublishError {
+  const { code, detail } = parseNpmOutput(output);
+  const kind = (code && KINDS_BY_CODE[code]) || 'unknown';
+  const suffix = detail ? ` (${detail})` : '';
+
+  switch (kind) {
+    case 'otp':
+      return {
+        kind,
+        message: `Publishing ${name} needs a one-time password, or the one given has expired. Pass a fresh one with --otp`,
+      };
+    case 'auth':
+      return {
+        kind,
+        message: `Not logged in to ${registry}, or the token has expired. Run npm login --registry ${registry}${suffix}`,
+      };
+    case 'forbidden':
+      return {
+        kind,
+        message: `No permission to publish ${name} to ${registry}. Check that you are a maintainer and that the token can publish${suffix}`,
+      };
+    case 'not-found':
+      return {
+        kind,
+        message: `${registry} answered 404 for ${name}: the scope does not exist, or you cannot publish to it${suffix}`,
+      };
+    case 'conflict':
+      return {
+        kind,
+        message: `${registry} reported a conflict for ${name}; another publish may have happened at the same time. Check the registry before retrying${suffix}`,
+      };
+    default:
+      // Callers already say which package failed to publish
+      return { kind, message: detail ?? 'npm publish failed' };
+  }
+}
@@ -1,192 +1,493 @@
 import { spawn } from 'node:child_process';
-import { readFile, stat } from 'node:fs/promises';
-import { join } from 'node:path';
-import type { DiscoveredPackage, PackageJson } from './types.js';
+import { readFile, writeFile } from 'node:fs/promises';
+import { join, relative } from 'node:path';
+import { fileExists, readJsonFile } from './fs.js';
+import { STATE_DIR } from './journal.js';
+import { detectJsonFormat, stringifyJson } from './json-edit.js';
+import { collectEntryPoints, createTarballFilter } from './package-files.js';
+import { detectPackageManager } from './package-manager.js';
+import { type PublishErrorKind, parsePublishError } from './publish-errors.js';
+import { isPrerelease } from './semver.js';
+import { type TarballInfo, parsePackOutput } from './tarball.js';
+import type {
+  DiscoveredPackage,
+  PackageJson,
+  PublishAccess,
+  PublishTarget,
+} from './types.js';
+import {
+  type ResolvedDependency,
+  resolveWorkspaceDependencies,
+} from './workspace.js';
 
 export interface BuildResult {
   success: boolean;
   error?: string;
 }
 
+export interface VerifyResult {
+  success: boolean;
+  errors: string[];
+}
+
 export interface PublishResult {
   success: boolean;
   error?: string;
+  errorKind?: PublishErrorKind;
 }
 
 function run(
   command: string,
   args: string[],
   cwd: string,
-): Promise<{ code: number; output: string }> {
+  options: { shell?: boolean; quiet?: boolean } = {},
+): Promise<{
+  code: number;
+  output: string;
+  stdout: string;
+  /** The command itself could not be found */
+  notFound?: boolean;
+}> {
   return new Promise((resolve) => {
     const proc = spawn(command, args, {
       cwd,
+      shell: options.shell,
       stdio: ['inherit', 'pipe', 'pipe'],
     });
 
     let output = '';
+    let stdout = '';
 
     proc.stdout?.on('data', (data) => {
       output += data.toString();
-      process.stdout.write(data);
+      stdout += data.toString();
+      if (!options.quiet) process.stdout.write(data);
     });
 
     proc.stderr?.on('data', (data) => {
       output += data.toString();
-      process.stderr.write(data);
+      if (!options.quiet) process.stderr.write(data);
+    });
+
+    proc.on('error', (error: NodeJS.ErrnoException) => {
+      resolve({
+        code: 1,
+        output: output + error.message,
+        stdout,
+        notFound: error.code === 'ENOENT',
+      });
     });
 
     proc.on('close', (code) => {
-      resolve({ code: code ?? 1, output });
+      resolve({ code: code ?? 1, output, stdout });
     });
   });
 }
 
+/**
+ * Build the packages being released. A configured `buildCommand` runs as a
+ * shell command at the root. Otherwise the root `build` script runs with the
+ * detected package manager, or, without one, each package's own `build`
+ * script in the given (dependency) order.
+ */
 export async function runBuild(
   cwd: string,
+  packages: DiscoveredPackage[],
   dryRun: boolean,
+  buildCommand = '',
 ): Promise<BuildResult> {
-  if (dryRun) {
-    console.log('[DRY RUN] Would run: bun run build');
+  if (buildCommand) {
+    if (dryRun) {
+      console.log(`[DRY RUN] Would run: ${buildCommand}`);
+      return { success: true };
+    }
+
+    console.log(`Running ${buildCommand}...`);
+    console.log('');
+    const result = await run(buildCommand, [], cwd, { shell: true });
+    if (result.code !== 0) {
+      return { success: false, error: `${buildCommand} failed` };
+    }
+
+    console.log('');
+    console.log('Build completed successfully');
+    return { success: true };
+  }
+
+  const rootPackageJson = await readJsonFile<PackageJson>(
+    join(cwd, 'package.json'),
+  );
+  const packageManager = await detectPackageManager(cwd, rootPackageJson);
+
+  // Build at the root if it has a build script, otherwise per package
+  const targets: { label: string; path: string }[] = [];
+  if (rootPackageJson?.scripts?.build) {
+    targets.push({ label: 'root', path: cwd });
+  } else {
+    for (const pkg of packages) {
+      const packageJson = await readJsonFile<PackageJson>(pkg.packageJsonPath);
+      if (packageJson?.scripts?.build) {
+        targets.push({ label: pkg.name, path: pkg.path });
+      }
+    }
+  }
+
+  if (targets.length === 0) {
+    console.log('No build script found, skipping build');
     return { success: true };
   }
 
-  console.log('Running build...');
-  console.log('');
+  for (const target of targets) {
+    const command = `${packageManager} run build`;
 
-  const result = await run('bun', ['run', 'build'], cwd);
+    if (dryRun) {
+      console.log(`[DRY RUN] Would run: ${command} (${target.label})`);
+      continue;
+    }
 
-  if (result.code !== 0) {
-    return { success: false, error: 'Build failed' };
+    console.log(`Running ${command} (${target.label})...`);
+    console.log('');
+    const result = await run(packageManager, ['run', 'build'], target.path);
+    if (result.notFound) {
+      return { success: false, error: `${packageManager} is not installed` };
+    }
+    if (result.code !== 0) {
+      return { success: false, error: `Build failed in ${target.label}` };
+    }
+    console.log('');
   }
 
-  console.log('');
-  console.log('Build completed successfully');
+  if (!dryRun) {
+    console.log('Build completed successfully');
+  }
   return { success: true };
 }
 
+/**
+ * Check that every file referenced by package.json exists and would be
+ * packed. All problems are collected rather than stopping at the first.
+ */
 export async function verifyBuild(
   pkg: DiscoveredPackage,
-): Promise<BuildResult> {
+): Promise<VerifyResult> {
   const content = await readFile(pkg.packageJsonPath, 'utf-8');
-  const packageJson = JSON.parse(content) as PackageJson & {
-    main?: string;
-    bin?: string | Record<string, string>;
-    exports?: Record<string, unknown> | string;
-  };
+  const packageJson = JSON.parse(content) as PackageJson;
 
-  // Collect files to verify from package.json
-  const filesToCheck: string[] = [];
+  const errors: string[] = [];
+  const excludedReason = await createTarballFilter(pkg.path, packageJson);
 
-  // Check main entry
-  if (packageJson.main) {
-    filesToCheck.push(packageJson.main);
-  }
+  for (const { field, target } of collectEntryPoints(packageJson)) {
+    // Subpath patterns: the directory before the first `*` must exist
+    const path = target.includes('*')
+      ? target.slice(0, target.indexOf('*')).replace(/[^/]*$/, '')
+      : target;
 
-  // Check bin entries
-  if (packageJson.bin) {
-    if (typeof packageJson.bin === 'string') {
-      filesToCheck.push(packageJson.bin);
-    } else {
-      filesToCheck.push(...Object.values(packageJson.bin));
+    if (!(await fileExists(join(pkg.path, path)))) {
+      errors.push(`${field}: ${target} does not exist`);
+      continue;
     }
-  }
 
-  // Check exports (simple case)
-  if (packageJson.exports) {
-    if (typeof packageJson.exports === 'string') {
-      filesToCheck.push(packageJson.exports);
-    } else if (typeof packageJson.exports['.'] === 'string') {
-      filesToCheck.push(packageJson.exports['.'] as string);
+    const reason = path && excludedReason(path.replace(/\/$/, ''));
+    if (reason) {
+      errors.push(`${field}: ${target} is ${reason}`);
     }
   }
 
-  // Default to dist/index.js if nothing specified
-  if (filesToCheck.length === 0) {
-    filesToCheck.push('./dist/index.js');
+  return { success: errors.length === 0, errors };
+}
+
+/**
+ * The dist-tag a version is published under: the requested tag if any,
+ * otherwise `next` for prereleases and `latest` for everything else.
+ */
+export function resolveDistTag(version: string, tag: string): string {
+  if (tag) return tag;
+  return isPrerelease(version) ? 'next' : 'latest';
+}
+
+/**
+ * Merge a package's `publishConfig` with the run's options. The package's
+ * own registry, access, tag and directory win; the run's options fill in the
+ * rest, and the dist-tag falls back to {@link resolveDistTag}.
+ */
+export function resolvePublishTarget(
+  pkg: DiscoveredPackage,
+  defaults: { registry: string; access: PublishAccess; tag: string },
+): PublishTarget {
+  const config = pkg.publishConfig;
+  return {
+    registry: config.registry || defaults.registry,
+    access: config.access || defaults.access,
+    tag: resolveDistTag(pkg.version, config.tag || defaults.tag),
+    directory: config.directory ? join(pkg.path, config.directory) : pkg.path,
+  };
+}
+
+/**
+ * Describe a target for summaries, e.g.
+ * `https://registry.npmjs.org (tag: latest, access: public, directory: dist)`.
+ */
+export function describePublishTarget(
+  pkg: DiscoveredPackage,
+  target: PublishTarget,
+): string {
+  const details = [`tag: ${target.tag}`, `access: ${target.access}`];
+  if (target.directory !== pkg.path) {
+    details.push(`directory: ${relative(pkg.path, target.directory)}`);
   }
+  return `${target.registry} (${details.join(', ')})`;
+}
 
-  // Verify each file exists
-  for (const file of filesToCheck) {
-    const filePath = join(pkg.path, file);
-    try {
-      await stat(filePath);
-    } catch {
-      return { success: false, error: `Missing ${file} in ${pkg.name}` };
-    }
+/**
+ * List the `workspace:` dependencies of a published manifest and the
+ * concrete ranges they are published with.
+ */
+export async function getWorkspaceResolutions(
+  manifestPath: string,
+  workspaceVersions: Map<string, string>,
+): Promise<ResolvedDependency[]> {
+  const content = await readFile(manifestPath, 'utf-8');
+  const packageJson = JSON.parse(content) as PackageJson;
+  return resolveWorkspaceDependencies(packageJson, workspaceVersions).resolved;
+}
+
+/**
+ * Run `fn` while the published package.json has its `workspace:` ranges
+ * replaced with concrete ones, since `npm publish` does not resolve them.
+ * The original file is always restored.
+ */
+async function withResolvedManifest<T>(
+  manifestPath: string,
+  workspaceVersions: Map<string, string>,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const original = await readFile(manifestPath, 'utf-8');
+  const { manifest, resolved } = resolveWorkspaceDependencies(
+    JSON.parse(original) as PackageJson,
+    workspaceVersions,
+  );
+
+  if (resolved.length === 0) {
+    return fn();
   }
 
-  return { success: true };
+  for (const dep of resolved) {
+    console.log(`  Resolved ${dep.name}: ${dep.from} -> ${dep.to}`);
+  }
+
+  await writeFile(
+    manifestPath,
+    stringifyJson(manifest, detectJsonFormat(original)),
+  );
+  try {
+    return await fn();
+  } finally {
+    await writeFile(manifestPath, original);
+  }
 }
 
 export async function publishPackage(
   pkg: DiscoveredPackage,
-  registry: string,
+  target: PublishTarget,
   otp: string,
   dryRun: boolean,
+  workspaceVersions: Map<string, string>,
 ): Promise<PublishResult> {
   if (dryRun) {
     console.log(
-      `  [DRY RUN] Would publish ${pkg.name}@${pkg.version} to ${registry}`,
+      `  [DRY RUN] Would publish ${pkg.name}@${pkg.version} to ${describePublishTarget(pkg, target)}`,
     );
     return { success: true };
   }
 
-  console.log(`Publishing ${pkg.name}@${pkg.version}...`);
+  if (!(await fileExists(join(target.directory, 'package.json')))) {
+    return {
+      success: false,
+      error: `publishConfig.directory of ${pkg.name} (${target.directory}) has no package.json`,
+    };
+  }
 
-  const args = ['publish', '--registry', registry, '--access', 'public'];
+  console.log(`Publishing ${pkg.name}@${pkg.version} (tag: ${target.tag})...`);
+
+  const args = [
+    'publish',
+    '--registry',
+    target.registry,
+    '--access',
+    target.access,
+    '--tag',
+    target.tag,
+  ];
   if (otp) {
     args.push('--otp', otp);
   }
-  const result = await run('npm', args, pkg.path);
+  const result = await withResolvedManifest(
+    join(target.directory, 'package.json'),
+    workspaceVersions,
+    () => run('npm', args, target.directory),
+  );
 
   if (result.code !== 0) {
-    return { success: false, error: `Failed to publish ${pkg.name}` };
+    const { kind, message } = parsePublishError(
+      result.output,
+      pkg.name,
+      target.registry,
+    );
+    return { success: false, error: message, errorKind: kind };
   }
 
   console.log(`  ${pkg.name} published successfully`);
   return { success: true };
 }
 
+export interface PackResult {
+  success: boolean;
+  error?: string;
+  tarball?: TarballInfo;
+}
+
+/**
+ * List what `npm publish` would upload from a package's publish directory,
+ * without running its lifecycle scripts.
+ */
+export async function packPackage(
+  pkg: DiscoveredPackage,
+  directory: string,
+): Promise<PackResult> {
+  if (!(await fileExists(join(directory, 'package.json')))) {
+    return {
+      success: false,
+      error: `publishConfig.directory of ${pkg.name} (${directory}) has no package.json`,
+    };
+  }
+
+  const result = await run(
+    'npm',
+    ['pack', '--dry-run', '--json', '--ignore-scripts'],
+    directory,
+    { quiet: true },
+  );
+  if (result.code !== 0) {
+    return {
+      success: false,
+      error: `npm pack failed for ${pkg.name}: ${result.output.trim()}`,
+    };
+  }
+
+  try {
+    return { success: true, tarball: parsePackOutput(result.stdout) };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Could not read npm pack output for ${pkg.name}: ${(error as Error).message}`,
+    };
+  }
+}
+
+/**
+ * Read the dist-tags of a published package, or null if they could not be
+ * fetched.
+ */
+export async function getDistTags(
+  name: string,
+  registry: string,
+  cwd: string,
+): Promise<Record<string, string> | null> {
+  const result = await run(
+    'npm',
+    ['view', name, 'dist-tags', '--json', '--registry', registry],
+    cwd,
+    { quiet: true },
+  );
+  if (result.code !== 0) {
+    return null;
+  }
+  try {
+    return JSON.parse(result.stdout) as Record<string, string>;
+  } catch {
+    return null;
+  }
+}
+
 export async function hasUncommittedChanges(
   cwd: string,
 ): Promise<{ hasChanges: boolean; files: string[] }> {
-  const result = await run('git', ['status', '--porcelain'], cwd);
+  const result = await run('git', ['status', '--porcelain'], cwd, {
+    quiet: true,
+  });
   const output = result.output.trim();
-  if (!output) {
-    return { hasChanges: false, files: [] };
-  }
-  const files = output.split('\n').map((line) => line.slice(3));
-  return { hasChanges: true, files };
+  // pubz's own release state is never part of the working tree changes
+  const files = output
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => line.slice(3))
+    .filter((file) => !file.startsWith(`${STATE_DIR}/`));
+  return { hasChanges: files.length > 0, files };
+}
+
+/**
+ * The tag template in effect: the configured one, or `{name}@{version}` for
+ * independent versioning and `v{version}` otherwise.
+ */
+export function resolveTagFormat(
+  tagFormat: string,
+  independent: boolean,
+): string {
+  return tagFormat || (independent ? '{name}@{version}' : 'v{version}');
+}
+
+/**
+ * Whether a tag template gives every package its own tag.
+ */
+export function isPerPackageTagFormat(tagFormat: string): boolean {
+  return tagFormat.includes('{name}');
+}
+
+export function formatTag(
+  tagFormat: string,
+  pkg: { name: string; version: string },
+): string {
+  return tagFormat
+    .replaceAll('{name}', pkg.name)
+    .replaceAll('{version}', pkg.version);
 }
 
 export async function commitVersionBump(
-  version: string,
+  releaseName: string,
   cwd: string,
   dryRun: boolean,
 ): Promise<{ success: boolean; error?: string }> {
-  const tagName = `v${version}`;
-
   if (dryRun) {
-    console.log(`[DRY RUN] Would commit version bump for ${tagName}`);
+    console.log(`[DRY RUN] Would commit version bump for ${releaseName}`);
     return { success: true };
   }
 
   // Check for uncommitted changes
-  const statusResult = await run('git', ['status', '--porcelain'], cwd);
-  if (!statusResult.output.trim()) {
+  const status = await hasUncommittedChanges(cwd);
+  if (!status.hasChanges) {
     return { success: true };
   }
 
   console.log('Committing version bump...');
-  const addResult = await run('git', ['add', '-A'], cwd);
+  // Keep the journal out of the commit. git refuses an exclude pathspec that
+  // names an ignored path, and then `.gitignore` already keeps it out
+  const ignored = await run('git', ['check-ignore', '-q', STATE_DIR], cwd, {
+    quiet: true,
+  });
+  const addResult = await run(
+    'git',
+    ignored.code === 0
+      ? ['add', '-A']
+      : ['add', '-A', '--', '.', `:(exclude)${STATE_DIR}`],
+    cwd,
+  );
   if (addResult.code !== 0) {
     return { success: false, error: 'Failed to stage changes' };
   }
 
   const commitResult = await run(
     'git',
-    ['commit', '-m', `chore: release ${tagName}`],
+    ['commit', '-m', `chore: release ${releaseName}`],
     cwd,
   );
   if (commitResult.code !== 0) {
@@ -197,19 +498,37 @@ export async function commitVersionBump(
   return { success: true };
 }
 
+export interface TagOptions {
+  /** Message for an annotated tag, `{tag}` is replaced by the tag name */
+  message: string;
+  /** Sign the tag with the configured GPG or SSH key */
+  sign: boolean;
+}
+
+/**
+ * Create a git tag: lightweight by default, annotated when a message is
+ * given, and signed (which implies annotated) when `sign` is set.
+ */
 export async function createGitTag(
-  version: string,
+  tagName: string,
   cwd: string,
   dryRun: boolean,
+  options: TagOptions = { message: '', sign: false },
 ): Promise<{ success: boolean; error?: string }> {
-  const tagName = `v${version}`;
+  const message = options.message.replaceAll('{tag}', tagName);
+  const args = options.sign
+    ? ['tag', '-s', tagName, '-m', message || tagName]
+    : message
+      ? ['tag', '-a', tagName, '-m', message]
+      : ['tag', tagName];
+  const kind = options.sign ? 'signed ' : message ? 'annotated ' : '';
 
   if (dryRun) {
-    console.log(`[DRY RUN] Would create git tag: ${tagName}`);
+    console.log(`[DRY RUN] Would create ${kind}git tag: ${tagName}`);
     return { success: true };
   }
 
-  const tagResult = await run('git', ['tag', tagName], cwd);
+  const tagResult = await run('git', args, cwd);
   if (tagResult.code !== 0) {
     return {
       success: false,
@@ -217,27 +536,46 @@ export async function createGitTag(
     };
   }
 
-  console.log(`  Tag ${tagName} created`);
+  console.log(`  Tag ${tagName} created${kind ? ` (${kind.trim()})` : ''}`);
   return { success: true };
 }
 
-export async function pushGitTag(
-  version: string,
+/**
+ * Push the release commit on `branch` and the release tags to origin in
+ * one atomic push, so neither lands without the other. On a detached HEAD
+ * (`branch` is null) only the tags are pushed.
+ */
+export async function pushRelease(
+  tagNames: string[],
+  branch: string | null,
   cwd: string,
   dryRun: boolean,
 ): Promise<{ success: boolean; error?: string }> {
-  const tagName = `v${version}`;
+  const refs = [
+    ...(branch ? [`HEAD:refs/heads/${branch}`] : []),
+    ...tagNames.map((tagName) => `refs/tags/${tagName}`),
+  ];
+  const pushed = [...(branch ? [branch] : []), ...tagNames].join(', ');
 
   if (dryRun) {
-    console.log(`[DRY RUN] Would push git tag: ${tagName}`);
+    console.log(`[DRY RUN] Would push ${pushed} to origin`);
     return { success: true };
   }
 
-  const result = await run('git', ['push', 'origin', tagName], cwd);
+  const result = await run('git', ['push', '--atomic', 'origin', ...refs], cwd);
   if (result.code !== 0) {
-    return { success: false, error: `Failed to push tag ${tagName}` };
+    const manual = `git push --atomic origin ${refs.join(' ')}`;
+    const rejected = /\[rejected\]|non-fast-forward|fetch first/.test(
+      result.output,
+    );
+    return {
+      success: false,
+      error: rejected
+        ? `origin rejected the push: ${branch} has commits there that are not in your branch. Merge them with git pull --no-rebase (rebasing would leave the tags off the branch), then push manually with: ${manual}`
+        : `Failed to push to origin. Push manually with: ${manual}`,
+    };
   }
 
-  console.log(`  Tag ${tagName} pushed to origin`);
+  console.log(`  Pushed ${pushed} to origin`);
   return { success: true };
 }
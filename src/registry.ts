@@ -0,0 +1,197 @@
+import { type Npmrc, getAuthHeader } from './npmrc.js';
+import { compareSemver } from './semver.js';
+
+const NPM_REGISTRY_HOST = 'registry.npmjs.org';
+
+export interface Packument {
+  name: string;
+  'dist-tags': Record<string, string>;
+  versions: Record<string, unknown>;
+}
+
+/**
+ * Where a local version stands relative to the registry:
+ * - `published`: this exact version already exists
+ * - `new`: the version can be published
+ * - `older`: the version is lower than the one the dist-tag points at
+ */
+export type RegistryStatus = 'published' | 'new' | 'older';
+
+export interface RegistryCheck {
+  status: RegistryStatus;
+  /** Version the dist-tag currently points at, if any */
+  currentVersion?: string;
+}
+
+function registryUrl(registry: string, path: string): string {
+  const base = registry.endsWith('/') ? registry : `${registry}/`;
+  return `${base}${path}`;
+}
+
+// Scoped names keep the @ but encode the slash: @scope%2fname
+function encodePackageName(name: string): string {
+  return encodeURIComponent(name).replace(/^%40/, '@');
+}
+
+function authHeaders(registry: string, npmrc: Npmrc): Record<string, string> {
+  const auth = getAuthHeader(npmrc, registry);
+  return auth ? { authorization: auth } : {};
+}
+
+/**
+ * Fetch package metadata from the registry HTTP API. Returns null if the
+ * package does not exist.
+ */
+export async function fetchPackument(
+  name: string,
+  registry: string,
+  npmrc: Npmrc,
+): Promise<Packument | null> {
+  const response = await fetch(registryUrl(registry, encodePackageName(name)), {
+    headers: {
+      accept: 'application/vnd.npm.install-v1+json',
+      ...authHeaders(registry, npmrc),
+    },
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(
+      `Registry lookup for ${name} failed: ${response.status} ${response.statusText}`,
+    );
+  }
+
+  const packument = (await response.json()) as Partial<Packument>;
+  return {
+    name: packument.name ?? name,
+    'dist-tags': packument['dist-tags'] ?? {},
+    versions: packument.versions ?? {},
+  };
+}
+
+/**
+ * Compare a local version with what the registry has under `distTag`.
+ */
+export async function checkRegistryVersion(
+  name: string,
+  version: string,
+  distTag: string,
+  registry: string,
+  npmrc: Npmrc,
+): Promise<RegistryCheck> {
+  const packument = await fetchPackument(name, registry, npmrc);
+  if (!packument) {
+    return { status: 'new' };
+  }
+
+  const currentVersion = packument['dist-tags'][distTag];
+
+  if (Object.hasOwn(packument.versions, version)) {
+    return { status: 'published', currentVersion };
+  }
+
+  if (currentVersion && compareSemver(version, currentVersion) < 0) {
+    return { status: 'older', currentVersion };
+  }
+
+  return { status: 'new', currentVersion };
+}
+
+/**
+ * The user the `.npmrc` credentials for `registry` belong to, or null if the
+ * registry rejects them. Throws if the registry cannot tell, e.g. because it
+ * has no whoami endpoint.
+ */
+export async function whoami(
+  registry: string,
+  npmrc: Npmrc,
+): Promise<string | null> {
+  const response = await fetch(registryUrl(registry, '-/whoami'), {
+    headers: authHeaders(registry, npmrc),
+  });
+
+  if (response.status === 401 || response.status === 403) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`whoami failed: ${response.status} ${response.statusText}`);
+  }
+
+  const body = (await response.json()) as { username?: string };
+  if (!body.username) {
+    throw new Error('whoami returned no username');
+  }
+  return body.username;
+}
+
+/**
+ * Whether `username` may publish `name`:
+ * - `allowed`: a read-write maintainer of an existing package, or a new
+ *   package that is unscoped, in the user's own scope or in an org the user
+ *   belongs to
+ * - `denied`: the registry says otherwise; `reason` explains why
+ * - `unknown`: the registry does not expose this information
+ */
+export async function checkPublishRights(
+  name: string,
+  username: string,
+  registry: string,
+  npmrc: Npmrc,
+): Promise<{ status: 'allowed' | 'denied' | 'unknown'; reason?: string }> {
+  const headers = authHeaders(registry, npmrc);
+  const collaborators = await fetch(
+    registryUrl(registry, `-/package/${encodePackageName(name)}/collaborators`),
+    { headers },
+  );
+
+  if (collaborators.ok) {
+    const access = ((await collaborators.json()) as Record<string, string>)[
+      username
+    ];
+    if (access === 'read-write') {
+      return { status: 'allowed' };
+    }
+    return {
+      status: 'denied',
+      reason: access
+        ? `${username} only has ${access} access`
+        : `${username} is not a maintainer`,
+    };
+  }
+  // Scope and org rules are those of the public npm registry
+  if (
+    collaborators.status !== 404 ||
+    new URL(registry).host !== NPM_REGISTRY_HOST
+  ) {
+    return { status: 'unknown' };
+  }
+
+  // The package does not exist yet: anyone may create an unscoped package,
+  // scoped ones need the user's own scope or org membership
+  const scope = /^@([^/]+)\//.exec(name)?.[1];
+  if (!scope || scope === username) {
+    return { status: 'allowed' };
+  }
+
+  const members = await fetch(registryUrl(registry, `-/org/${scope}/user`), {
+    headers,
+  });
+  if (members.ok) {
+    const role = ((await members.json()) as Record<string, string>)[username];
+    return role
+      ? { status: 'allowed' }
+      : {
+          status: 'denied',
+          reason: `${username} is not a member of the @${scope} org`,
+        };
+  }
+  if (members.status === 403 || members.status === 404) {
+    return {
+      status: 'denied',
+      reason: `${username} cannot create packages in the @${scope} scope`,
+    };
+  }
+  return { status: 'unknown' };
+}
@@ -0,0 +1,143 @@
+import type { ReleaseProvider } from './types.js';
+
+export const DEFAULT_RELEASE_API_URLS: Record<ReleaseProvider, string> = {
+  github: 'https://api.github.com',
+  gitlab: 'https://gitlab.com/api/v4',
+};
+
+export interface ReleaseRequest {
+  tagName: string;
+  name: string;
+  body: string;
+  prerelease: boolean;
+}
+
+export interface ReleaseResult {
+  success: boolean;
+  error?: string;
+  /** Web URL of the created release */
+  url?: string;
+}
+
+/**
+ * Extract the repository path (`owner/repo`, or `group/subgroup/project` on
+ * GitLab) from a git remote URL in SSH, scp-like or HTTPS form.
+ */
+export function parseRepoPath(remoteUrl: string): string | null {
+  const match =
+    /^[^@/:]+@[^:/]+:(.+?)(?:\.git)?\/?$/.exec(remoteUrl) ??
+    /^[a-z+]+:\/\/[^/]+\/(.+?)(?:\.git)?\/?$/i.exec(remoteUrl);
+  return match?.[1] ?? null;
+}
+
+/**
+ * Headers that authenticate against the provider's API, from environment
+ * variables: `GITHUB_TOKEN` or `GH_TOKEN` for GitHub, `GITLAB_TOKEN` or
+ * `CI_JOB_TOKEN` for GitLab. Returns null if no token is set.
+ */
+export function getReleaseAuthHeaders(
+  provider: ReleaseProvider,
+): Record<string, string> | null {
+  if (provider === 'github') {
+    const token = process.env.GITHUB_TOKEN || process.env.GH_TOKEN;
+    return token ? { authorization: `Bearer ${token}` } : null;
+  }
+
+  if (process.env.GITLAB_TOKEN) {
+    return { 'private-token': process.env.GITLAB_TOKEN };
+  }
+  if (process.env.CI_JOB_TOKEN) {
+    return { 'job-token': process.env.CI_JOB_TOKEN };
+  }
+  return null;
+}
+
+function requestFor(
+  provider: ReleaseProvider,
+  apiUrl: string,
+  repo: string,
+  release: ReleaseRequest,
+): { url: string; headers: Record<string, string>; body: unknown } {
+  const base = apiUrl.replace(/\/+$/, '');
+
+  if (provider === 'github') {
+    return {
+      url: `${base}/repos/${repo}/releases`,
+      headers: {
+        accept: 'application/vnd.github+json',
+        'x-github-api-version': '2022-11-28',
+      },
+      body: {
+        tag_name: release.tagName,
+        name: release.name,
+        body: release.body,
+        prerelease: release.prerelease,
+      },
+    };
+  }
+
+  // GitLab has no prerelease flag on releases
+  return {
+    url: `${base}/projects/${encodeURIComponent(repo)}/releases`,
+    headers: {},
+    body: {
+      tag_name: release.tagName,
+      name: release.name,
+      description: release.body,
+    },
+  };
+}
+
+/**
+ * Create a release for an existing, pushed tag through the GitHub or GitLab
+ * REST API.
+ */
+export async function createRelease(
+  provider: ReleaseProvider,
+  release: ReleaseRequest,
+  options: { apiUrl: string; repo: string },
+): Promise<ReleaseResult> {
+  const auth = getReleaseAuthHeaders(provider);
+  if (!auth) {
+    const variables =
+      provider === 'github'
+        ? 'GITHUB_TOKEN or GH_TOKEN'
+        : 'GITLAB_TOKEN or CI_JOB_TOKEN';
+    return { success: false, error: `Set ${variables} to create releases` };
+  }
+
+  const { url, headers, body } = requestFor(
+    provider,
+    options.apiUrl || DEFAULT_RELEASE_API_URLS[provider],
+    options.repo,
+    release,
+  );
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { ...headers, ...auth, 'content-type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    return {
+      success: false,
+      error: `Could not reach ${url}: ${(error as Error).message}`,
+    };
+  }
+
+  if (!response.ok) {
+    const detail = (await response.text()).trim();
+    return {
+      success: false,
+      error: `Creating release ${release.tagName} failed: ${response.status} ${response.statusText}${detail ? ` ${detail}` : ''}`,
+    };
+  }
+
+  const created = (await response.json()) as {
+    html_url?: string;
+    _links?: { self?: string };
+  };
+  return { success: true, url: created.html_url ?? created._links?.self };
+}
@@ -0,0 +1,126 @@
+import { writeFileSync } from 'node:fs';
+import type {
+  PublishOptions,
+  ReleaseReport,
+  ReportPackageStatus,
+  ReportStep,
+} from './types.js';
+
+// Strip ANSI colors from messages copied into the report
+const ANSI_PATTERN = new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*m`, 'g');
+
+let currentStep: { name: ReportStep['name']; startedAt: number } | null = null;
+let completed = false;
+
+export function createReport(options: PublishOptions): ReleaseReport {
+  return {
+    schemaVersion: 1,
+    status: 'failed',
+    exitCode: 1,
+    dryRun: options.dryRun,
+    error: null,
+    versionSpec: options.version || null,
+    registry: null,
+    discovered: [],
+    packages: [],
+    git: { commit: null, tags: [], pushed: false, releases: [] },
+    timings: {
+      startedAt: new Date().toISOString(),
+      finishedAt: '',
+      durationMs: 0,
+      steps: [],
+    },
+  };
+}
+
+function endStep(report: ReleaseReport) {
+  if (!currentStep) return;
+  report.timings.steps.push({
+    name: currentStep.name,
+    durationMs: Date.now() - currentStep.startedAt,
+  });
+  currentStep = null;
+}
+
+/**
+ * Start timing a step; the previous step ends here.
+ */
+export function beginStep(report: ReleaseReport, name: ReportStep['name']) {
+  endStep(report);
+  currentStep = { name, startedAt: Date.now() };
+}
+
+/**
+ * Mark the run as having reached its end, as opposed to stopping early.
+ */
+export function completeReport() {
+  completed = true;
+}
+
+export function setReportPackageStatus(
+  report: ReleaseReport,
+  name: string,
+  status: ReportPackageStatus,
+  error?: string,
+) {
+  const entry = report.packages.find((p) => p.name === name);
+  if (!entry) return;
+  entry.status = status;
+  entry.error = error ?? null;
+}
+
+function finishReport(report: ReleaseReport, exitCode: number) {
+  endStep(report);
+  const finishedAt = new Date();
+  report.timings.finishedAt = finishedAt.toISOString();
+  report.timings.durationMs =
+    finishedAt.getTime() - new Date(report.timings.startedAt).getTime();
+  report.exitCode = exitCode;
+  if (exitCode === 0) report.error = null;
+  report.status =
+    exitCode === 0
+      ? completed
+        ? 'success'
+        : 'cancelled'
+      : exitCode === 2
+        ? 'partial'
+        : 'failed';
+}
+
+/**
+ * Emit `report` when the process exits, however it exits. With `json`, the
+ * report is the only thing written to stdout and all other output goes to
+ * stderr; with `file`, it is written there. The last error printed is kept
+ * as the report's `error`.
+ */
+export function attachReport(
+  report: ReleaseReport,
+  target: { json: boolean; file: string },
+) {
+  const writeStdout = process.stdout.write.bind(process.stdout);
+  const printError = console.error;
+  if (target.json) {
+    process.stdout.write = process.stderr.write.bind(
+      process.stderr,
+    ) as typeof process.stdout.write;
+    // Bun's console does not go through process.stdout.write
+    console.log = printError;
+    console.info = printError;
+  }
+
+  console.error = (...args: unknown[]) => {
+    report.error = args.map(String).join(' ').replace(ANSI_PATTERN, '').trim();
+    printError(...args);
+  };
+
+  process.on('exit', (code) => {
+    finishReport(report, code);
+    const content = `${JSON.stringify(report, null, 2)}\n`;
+    if (target.file) {
+      writeFileSync(target.file, content);
+    }
+    if (target.json) {
+      writeStdout(content);
+    }
+  });
+}
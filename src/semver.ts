@@ -0,0 +1,132 @@
+import type { VersionBumpType } from './types.js';
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: (string | number)[];
+  build: string[];
+}
+
+// https://semver.org/#is-there-a-suggested-regular-expression-regex-to-check-a-semver-string
+const SEMVER_PATTERN =
+  /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+
+export function parseSemver(version: string): SemVer | null {
+  const match = SEMVER_PATTERN.exec(version.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, major, minor, patch, prerelease, build] = match;
+  return {
+    major: Number(major),
+    minor: Number(minor),
+    patch: Number(patch),
+    prerelease: prerelease
+      ? prerelease.split('.').map((id) => (/^\d+$/.test(id) ? Number(id) : id))
+      : [],
+    build: build ? build.split('.') : [],
+  };
+}
+
+/**
+ * Parse a version, throwing if it is not valid semver.
+ */
+export function parseSemverStrict(version: string): SemVer {
+  const parsed = parseSemver(version);
+  if (!parsed) {
+    throw new Error(
+      `Invalid version "${version}" (expected semver, e.g. 1.2.3)`,
+    );
+  }
+  return parsed;
+}
+
+export function formatSemver(version: SemVer): string {
+  let result = `${version.major}.${version.minor}.${version.patch}`;
+  if (version.prerelease.length > 0) {
+    result += `-${version.prerelease.join('.')}`;
+  }
+  if (version.build.length > 0) {
+    result += `+${version.build.join('.')}`;
+  }
+  return result;
+}
+
+export function isPrerelease(version: string): boolean {
+  return (parseSemver(version)?.prerelease.length ?? 0) > 0;
+}
+
+function compareIdentifiers(a: string | number, b: string | number): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return Math.sign(a - b);
+  }
+  // Numeric identifiers always have lower precedence than alphanumeric ones
+  if (typeof a === 'number') return -1;
+  if (typeof b === 'number') return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Compare two versions by semver precedence. Build metadata is ignored.
+ * Returns -1, 0 or 1.
+ */
+export function compareSemver(a: string, b: string): number {
+  const left = parseSemverStrict(a);
+  const right = parseSemverStrict(b);
+
+  for (const key of ['major', 'minor', 'patch'] as const) {
+    if (left[key] !== right[key]) {
+      return Math.sign(left[key] - right[key]);
+    }
+  }
+
+  // A version without prerelease identifiers has higher precedence
+  if (left.prerelease.length === 0 || right.prerelease.length === 0) {
+    return Math.sign(right.prerelease.length - left.prerelease.length);
+  }
+
+  const length = Math.max(left.prerelease.length, right.prerelease.length);
+  for (let i = 0; i < length; i++) {
+    if (left.prerelease[i] === undefined) return -1;
+    if (right.prerelease[i] === undefined) return 1;
+    const result = compareIdentifiers(left.prerelease[i], right.prerelease[i]);
+    if (result !== 0) return result;
+  }
+
+  return 0;
+}
+
+/**
+ * The kind of bump that leads from `from` to `to`, following npm's
+ * `semver.diff`, or null if they are equal or `to` is not higher.
+ */
+export function diffSemver(
+  from: string,
+  to: string,
+): Exclude<VersionBumpType, 'none'> | null {
+  if (compareSemver(from, to) >= 0) {
+    return null;
+  }
+
+  const low = parseSemverStrict(from);
+  const high = parseSemverStrict(to);
+  const pre = high.prerelease.length > 0 ? 'pre' : '';
+
+  // Graduating a prerelease: 1.1.0-rc.0 -> 1.1.0 is a minor release
+  if (
+    low.prerelease.length > 0 &&
+    !pre &&
+    low.major === high.major &&
+    low.minor === high.minor &&
+    low.patch === high.patch
+  ) {
+    return low.patch ? 'patch' : low.minor ? 'minor' : 'major';
+  }
+
+  if (low.major !== high.major) return `${pre}major`;
+  if (low.minor !== high.minor) return `${pre}minor`;
+  if (low.patch !== high.patch) return `${pre}patch`;
+  return 'prerelease';
+}
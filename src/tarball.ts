@@ -0,0 +1,111 @@
+import { readFile } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+
+export interface TarballFile {
+  path: string;
+  size: number;
+}
+
+/** What `npm pack --dry-run --json` reports for one package */
+export interface TarballInfo {
+  files: TarballFile[];
+  /** Compressed size in bytes */
+  size: number;
+  unpackedSize: number;
+}
+
+export interface SuspiciousFile {
+  path: string;
+  reason: string;
+}
+
+const UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+};
+
+/**
+ * Parse a size such as `500kb`, `2MB` or `1.5 mb` into bytes. A bare number
+ * is bytes. Returns null if the value is not a size.
+ */
+export function parseSize(value: string): number | null {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([kmg]?b)?\s*$/i.exec(value);
+  if (!match) return null;
+  return Math.round(Number(match[1]) * UNITS[(match[2] ?? 'b').toLowerCase()]);
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 ** 2) return `${(bytes / 1024).toFixed(1)} kB`;
+  return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+}
+
+/**
+ * Parse the JSON output of `npm pack --dry-run --json`.
+ */
+export function parsePackOutput(output: string): TarballInfo {
+  const [entry] = JSON.parse(output) as {
+    files: TarballFile[];
+    size: number;
+    unpackedSize: number;
+  }[];
+  if (!entry) {
+    throw new Error('npm pack returned no package');
+  }
+  return {
+    files: entry.files.map(({ path, size }) => ({ path, size })),
+    size: entry.size,
+    unpackedSize: entry.unpackedSize,
+  };
+}
+
+// Files that usually hold credentials or keys
+const SECRET_FILES: [RegExp, string][] = [
+  [/^\.env(\..*)?$/, 'environment file'],
+  [/^\.npmrc$/, 'npm config, may contain auth tokens'],
+  [/\.(pem|key|p12|pfx)$/, 'private key or certificate'],
+  [/^id_(rsa|dsa|ecdsa|ed25519)$/, 'SSH private key'],
+];
+
+// Templates that are meant to be shared
+const SAFE_ENV_FILES = /^\.env\.(example|sample|template)$/;
+
+/**
+ * Flag files in a tarball that look like secrets, and source maps that embed
+ * the original source (`sourcesContent`).
+ */
+export async function findSuspiciousFiles(
+  packagePath: string,
+  files: TarballFile[],
+): Promise<SuspiciousFile[]> {
+  const suspicious: SuspiciousFile[] = [];
+
+  for (const { path } of files) {
+    const name = basename(path);
+    if (SAFE_ENV_FILES.test(name)) continue;
+
+    const secret = SECRET_FILES.find(([pattern]) => pattern.test(name));
+    if (secret) {
+      suspicious.push({ path, reason: secret[1] });
+      continue;
+    }
+
+    if (name.endsWith('.map')) {
+      try {
+        const map = JSON.parse(
+          await readFile(join(packagePath, path), 'utf-8'),
+        ) as { sourcesContent?: unknown[] };
+        if (map.sourcesContent?.some((source) => source)) {
+          suspicious.push({
+            path,
+            reason: 'source map with embedded source',
+          });
+        }
+      } catch {}
+    }
+  }
+
+  return suspicious;
+}
@@ -6,7 +6,21 @@ export interface PackageJson {
   dependencies?: Record<string, string>;
   devDependencies?: Record<string, string>;
   peerDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
   scripts?: Record<string, string>;
+  main?: string;
+  module?: string;
+  browser?: string | Record<string, string | false>;
+  types?: string;
+  typings?: string;
+  bin?: string | Record<string, string>;
+  exports?: unknown;
+  typesVersions?: Record<string, Record<string, string[]>>;
+  files?: string[];
+  /** Package manager declared for Corepack, e.g. `pnpm@9.1.0` */
+  packageManager?: string;
+  publishConfig?: PublishConfig;
+  pubz?: PubzConfig;
 }
 
 export interface DiscoveredPackage {
@@ -16,16 +30,230 @@ export interface DiscoveredPackage {
   packageJsonPath: string;
   isPrivate: boolean;
   localDependencies: string[];
+  /** Where the package was discovered from */
+  source: DiscoverySource;
+  /** The package's own publish settings, which win over the run's options */
+  publishConfig: PublishConfig;
 }
 
+export type PublishAccess = 'public' | 'restricted';
+
+/**
+ * The `publishConfig` fields of a package.json that pubz honors.
+ */
+export interface PublishConfig {
+  registry?: string;
+  access?: PublishAccess;
+  tag?: string;
+  /** Subdirectory to publish instead of the package root, e.g. `dist` */
+  directory?: string;
+}
+
+/**
+ * Where and how a package is published, after merging its `publishConfig`
+ * with the run's options.
+ */
+export interface PublishTarget {
+  registry: string;
+  access: PublishAccess;
+  tag: string;
+  /** Absolute path of the directory that is published */
+  directory: string;
+}
+
+export type DiscoverySource =
+  | 'pnpm-workspace.yaml'
+  | 'package.json'
+  | 'lerna.json'
+  | 'nx.json'
+  | 'packages/'
+  | 'root';
+
 export interface PublishOptions {
   dryRun: boolean;
   registry: string;
+  /** Access level for packages without `publishConfig.access` */
+  access: PublishAccess;
   otp: string;
+  /** npm dist-tag; empty means `latest`, or `next` for prereleases */
+  tag: string;
   skipBuild: boolean;
   skipConfirms: boolean;
   ci: boolean;
+  /** Continue an unfinished release instead of starting a new one */
+  resume: boolean;
+  version: string;
+  /** Prerelease identifier for pre* bumps, e.g. `beta` for 1.0.0-beta.0 */
+  preid: string;
+  /** Version each package on its own instead of sharing a single version */
+  independent: boolean;
+  /** Only publish packages with changes since their last release tag */
+  changedOnly: boolean;
+  /**
+   * Where release notes are written. `auto` uses the root CHANGELOG.md, or
+   * one per package in independent mode.
+   */
+  changelog: ChangelogMode;
+  buildCommand: string;
+  /**
+   * Git tag template with `{name}` and `{version}` placeholders. Empty means
+   * `{name}@{version}` for independent versioning and `v{version}` otherwise.
+   */
+  tagFormat: string;
+  /** Message for annotated tags; empty creates lightweight tags */
+  tagMessage: string;
+  /** Create signed tags (GPG or SSH, per git's `gpg.format`) */
+  signTags: boolean;
+  /** Whether circular dependencies between packages stop the release */
+  cycles: CycleMode;
+  /** Maximum number of packages published at the same time */
+  concurrency: number;
+  /** Largest allowed tarball per package, e.g. `5MB`; empty for no limit */
+  maxPackageSize: string;
+  /** Publish despite size budget or suspicious file warnings */
+  allowPackWarnings: boolean;
+  /** Branches (glob patterns) releases may run from; empty allows any */
+  branches: string[];
+  /** Check the branch, remote and upstream before releasing */
+  gitChecks: boolean;
+  /** Where to create a release for each pushed tag */
+  release: ReleaseMode;
+  /** API base URL for releases; defaults to the public GitHub or GitLab API */
+  releaseApiUrl: string;
+  /** Print a {@link ReleaseReport} as JSON on stdout; other output goes to stderr */
+  json: boolean;
+  /** Write a {@link ReleaseReport} as JSON to this file */
+  report: string;
+  /** Commands or JS modules to run around each stage of the release */
+  hooks: HooksConfig;
+}
+
+export type PackageHookName =
+  | 'preVersion'
+  | 'postVersion'
+  | 'preBuild'
+  | 'postBuild'
+  | 'prePublish'
+  | 'postPublish';
+
+export type HookName = PackageHookName | 'postTag';
+
+/**
+ * A shell command, or the path of a JS module (relative to the repository
+ * root) whose default export is called with the hook context. A list runs
+ * in order.
+ */
+export type HookCommand = string | string[];
+
+export interface HooksConfig extends Partial<Record<HookName, HookCommand>> {
+  /** Hooks that run once for each package, with that package as context */
+  perPackage?: Partial<Record<PackageHookName, HookCommand>>;
+}
+
+export type ChangelogMode = 'auto' | 'root' | 'package' | 'off';
+
+export type CycleMode = 'error' | 'warn';
+
+export type ReleaseProvider = 'github' | 'gitlab';
+
+export type ReleaseMode = 'off' | ReleaseProvider;
+
+/**
+ * Project-level defaults, read from `pubz.config.json` or the `"pubz"` key in
+ * the root package.json. Every field is optional; CLI flags take precedence.
+ */
+export type PubzConfig = Partial<PublishOptions>;
+
+export type VersionBumpType =
+  | 'major'
+  | 'minor'
+  | 'patch'
+  | 'premajor'
+  | 'preminor'
+  | 'prepatch'
+  | 'prerelease'
+  | 'none';
+
+/**
+ * Machine-readable result of a run, written with `--json` or
+ * `--report <file>`. Fields are only added in a compatible way; a breaking
+ * change bumps `schemaVersion`.
+ */
+export interface ReleaseReport {
+  schemaVersion: 1;
+  /**
+   * - `success`: everything planned was done
+   * - `partial`: some packages were published, but a publish, tag, push or
+   *   release step failed (exit code 2)
+   * - `failed`: nothing was published (exit code 1)
+   * - `cancelled`: stopped at a prompt, or there was nothing to publish
+   */
+  status: 'success' | 'partial' | 'failed' | 'cancelled';
+  /** Exit code of the process */
+  exitCode: number;
+  dryRun: boolean;
+  /** Error that stopped the run, if any */
+  error: string | null;
+  /** `--version` value, or null when chosen interactively */
+  versionSpec: string | null;
+  /** The run's registry, for packages without `publishConfig.registry` */
+  registry: string | null;
+  /** Every package found in the workspace, including private ones */
+  discovered: ReportDiscoveredPackage[];
+  /** Packages selected for this release, in publish order */
+  packages: ReportPackage[];
+  git: {
+    /** HEAD after the version bump commit */
+    commit: string | null;
+    tags: string[];
+    pushed: boolean;
+    releases: ReportRelease[];
+  };
+  timings: {
+    startedAt: string;
+    finishedAt: string;
+    durationMs: number;
+    /** Duration of each step that ran, in order */
+    steps: ReportStep[];
+  };
+}
+
+export interface ReportDiscoveredPackage {
+  name: string;
   version: string;
+  /** Relative to the repository root */
+  path: string;
+  private: boolean;
 }
 
-export type VersionBumpType = 'major' | 'minor' | 'patch' | 'none';
+export type ReportPackageStatus =
+  | 'pending'
+  | 'published'
+  | 'skipped'
+  | 'failed';
+
+export interface ReportPackage {
+  name: string;
+  /** Version before the bump, or null if unknown (resumed release) */
+  previousVersion: string | null;
+  version: string;
+  /** Kind of bump from `previousVersion`, or null if unchanged */
+  bump: Exclude<VersionBumpType, 'none'> | null;
+  distTag: string | null;
+  /** Registry the package is published to */
+  registry: string | null;
+  /** `skipped` means the version was already on the registry */
+  status: ReportPackageStatus;
+  error: string | null;
+}
+
+export interface ReportRelease {
+  tag: string;
+  url: string | null;
+  error: string | null;
+}
+
+export interface ReportStep {
+  name: 'version' | 'build' | 'publish' | 'tag';
+  durationMs: number;
+}
@@ -1,27 +1,144 @@
 import { readFile, writeFile } from 'node:fs/promises';
+import { detectJsonFormat, setJsonString, stringifyJson } from './json-edit.js';
+import { formatSemver, parseSemverStrict } from './semver.js';
 import type {
   DiscoveredPackage,
   PackageJson,
   VersionBumpType,
 } from './types.js';
+import {
+  DEPENDENCY_TYPES,
+  bumpWorkspaceSpec,
+  isWorkspaceSpec,
+} from './workspace.js';
 
-export function bumpVersion(version: string, type: VersionBumpType): string {
+/**
+ * Bump a semver version. Follows npm's rules: `major`/`minor`/`patch` on a
+ * prerelease of that release drop the prerelease (1.2.0-rc.1 -> 1.2.0), and
+ * the `pre*` types start or continue a prerelease using `preid`.
+ */
+export function bumpVersion(
+  version: string,
+  type: VersionBumpType,
+  preid = '',
+): string {
   if (type === 'none') return version;
 
-  const [major, minor, patch] = version.split('.').map(Number);
+  const current = parseSemverStrict(version);
+  const { major, minor, patch } = current;
+  const isPre = current.prerelease.length > 0;
+  const preStart = preid ? [preid, 0] : [0];
+
+  const next = (
+    nextMajor: number,
+    nextMinor: number,
+    nextPatch: number,
+    prerelease: (string | number)[] = [],
+  ) =>
+    formatSemver({
+      major: nextMajor,
+      minor: nextMinor,
+      patch: nextPatch,
+      prerelease,
+      build: [],
+    });
 
   switch (type) {
     case 'major':
-      return `${major + 1}.0.0`;
+      return isPre && minor === 0 && patch === 0
+        ? next(major, 0, 0)
+        : next(major + 1, 0, 0);
     case 'minor':
-      return `${major}.${minor + 1}.0`;
+      return isPre && patch === 0
+        ? next(major, minor, 0)
+        : next(major, minor + 1, 0);
     case 'patch':
-      return `${major}.${minor}.${patch + 1}`;
+      return isPre ? next(major, minor, patch) : next(major, minor, patch + 1);
+    case 'premajor':
+      return next(major + 1, 0, 0, preStart);
+    case 'preminor':
+      return next(major, minor + 1, 0, preStart);
+    case 'prepatch':
+      return next(major, minor, patch + 1, preStart);
+    case 'prerelease': {
+      if (!isPre) {
+        return next(major, minor, patch + 1, preStart);
+      }
+      // Switching to a different preid restarts the counter
+      if (preid && current.prerelease[0] !== preid) {
+        return next(major, minor, patch, preStart);
+      }
+      const prerelease = [...current.prerelease];
+      const last = prerelease.length - 1;
+      if (typeof prerelease[last] === 'number') {
+        prerelease[last] = (prerelease[last] as number) + 1;
+      } else {
+        prerelease.push(0);
+      }
+      return next(major, minor, patch, prerelease);
+    }
   }
 }
 
-export function previewBump(version: string, type: VersionBumpType): string {
-  const newVersion = bumpVersion(version, type);
+export const BUMP_TYPES: VersionBumpType[] = [
+  'patch',
+  'minor',
+  'major',
+  'prepatch',
+  'preminor',
+  'premajor',
+  'prerelease',
+];
+
+export function isBumpType(value: string): value is VersionBumpType {
+  return BUMP_TYPES.includes(value as VersionBumpType);
+}
+
+/**
+ * Resolve a `--version` value (bump type or explicit version) against the
+ * current version.
+ */
+export function resolveVersion(
+  currentVersion: string,
+  spec: string,
+  preid = '',
+): string {
+  if (isBumpType(spec)) {
+    return bumpVersion(currentVersion, spec, preid);
+  }
+  return formatSemver(parseSemverStrict(spec));
+}
+
+/**
+ * Parse a per-package version map such as `pkg-a=minor,@scope/b=2.0.0`.
+ * Returns null if the value is a single bump type or version.
+ */
+export function parseVersionMap(value: string): Map<string, string> | null {
+  if (!value.includes('=')) return null;
+
+  const map = new Map<string, string>();
+  for (const entry of value.split(',')) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+    const separator = trimmed.indexOf('=');
+    const name = trimmed.slice(0, separator).trim();
+    const spec = trimmed.slice(separator + 1).trim();
+    if (separator === -1 || !name || !spec) {
+      throw new Error(
+        `Invalid version map entry "${trimmed}" (expected <package>=<version>)`,
+      );
+    }
+    map.set(name, spec);
+  }
+  return map;
+}
+
+export function previewBump(
+  version: string,
+  type: VersionBumpType,
+  preid = '',
+): string {
+  const newVersion = bumpVersion(version, type, preid);
   return `${version} -> ${newVersion}`;
 }
 
@@ -44,40 +161,44 @@ export async function updatePackageVersion(
 
   await writeFile(
     pkg.packageJsonPath,
-    `${JSON.stringify(packageJson, null, 2)}\n`,
+    setJsonString(content, ['version'], newVersion) ??
+      stringifyJson(packageJson, detectJsonFormat(content)),
   );
   console.log(`  Updated ${pkg.name}: ${pkg.version} -> ${newVersion}`);
 }
 
+/**
+ * Rewrite ranges on local packages so each one points at that dependency's
+ * new version. Packages missing from `newVersions` are left untouched.
+ */
 export async function updateLocalDependencyVersions(
   packages: DiscoveredPackage[],
-  newVersion: string,
+  newVersions: Map<string, string>,
   dryRun: boolean,
 ): Promise<void> {
-  const packageNames = new Set(packages.map((p) => p.name));
-
   for (const pkg of packages) {
     const content = await readFile(pkg.packageJsonPath, 'utf-8');
     const packageJson = JSON.parse(content) as PackageJson;
+    let updated: string | null = content;
     let modified = false;
 
-    // Update dependencies, devDependencies, and peerDependencies
-    for (const depType of [
-      'dependencies',
-      'devDependencies',
-      'peerDependencies',
-    ] as const) {
+    // Update dependencies, devDependencies, peerDependencies and
+    // optionalDependencies
+    for (const depType of DEPENDENCY_TYPES) {
       const deps = packageJson[depType];
       if (!deps) continue;
 
       for (const depName of Object.keys(deps)) {
-        if (packageNames.has(depName)) {
+        const newVersion = newVersions.get(depName);
+        if (newVersion) {
           const oldVersion = deps[depName];
-          const newVersionSpec = oldVersion.startsWith('^')
-            ? `^${newVersion}`
-            : oldVersion.startsWith('~')
-              ? `~${newVersion}`
-              : newVersion;
+          const newVersionSpec = isWorkspaceSpec(oldVersion)
+            ? bumpWorkspaceSpec(oldVersion, newVersion)
+            : oldVersion.startsWith('^')
+              ? `^${newVersion}`
+              : oldVersion.startsWith('~')
+                ? `~${newVersion}`
+                : newVersion;
 
           if (deps[depName] !== newVersionSpec) {
             if (dryRun) {
@@ -86,6 +207,9 @@ export async function updateLocalDependencyVersions(
               );
             } else {
               deps[depName] = newVersionSpec;
+              updated =
+                updated &&
+                setJsonString(updated, [depType, depName], newVersionSpec);
               modified = true;
             }
           }
@@ -96,7 +220,7 @@ export async function updateLocalDependencyVersions(
     if (modified && !dryRun) {
       await writeFile(
         pkg.packageJsonPath,
-        `${JSON.stringify(packageJson, null, 2)}\n`,
+        updated ?? stringifyJson(packageJson, detectJsonFormat(content)),
       );
       console.log(`  Updated local dependency versions in ${pkg.name}`);
     }
@@ -0,0 +1,99 @@
+import type { PackageJson } from './types.js';
+
+const WORKSPACE_PREFIX = 'workspace:';
+
+export const DEPENDENCY_TYPES = [
+  'dependencies',
+  'devDependencies',
+  'peerDependencies',
+  'optionalDependencies',
+] as const;
+
+export function isWorkspaceSpec(spec: string): boolean {
+  return spec.startsWith(WORKSPACE_PREFIX);
+}
+
+/**
+ * Update a `workspace:` spec in source for a new dependency version.
+ * `workspace:*`, `workspace:^` and `workspace:~` always follow the workspace
+ * version and are kept as is; `workspace:^1.0.0` becomes `workspace:^<new>`.
+ * Other ranges are left untouched.
+ */
+export function bumpWorkspaceSpec(spec: string, newVersion: string): string {
+  const range = spec.slice(WORKSPACE_PREFIX.length);
+
+  if (range === '*' || range === '^' || range === '~' || range === '') {
+    return spec;
+  }
+
+  const match = /^([\^~]?)\d/.exec(range);
+  if (!match) {
+    return spec;
+  }
+
+  return `${WORKSPACE_PREFIX}${match[1]}${newVersion}`;
+}
+
+/**
+ * Resolve a `workspace:` spec to the range that is published, following the
+ * pnpm and Yarn rules: `*` becomes the exact version, `^` and `~` become a
+ * caret or tilde range on it, and any other range is published without the
+ * prefix.
+ */
+export function resolveWorkspaceSpec(spec: string, version: string): string {
+  const range = spec.slice(WORKSPACE_PREFIX.length);
+
+  switch (range) {
+    case '':
+    case '*':
+      return version;
+    case '^':
+      return `^${version}`;
+    case '~':
+      return `~${version}`;
+    default:
+      return range;
+  }
+}
+
+export interface ResolvedDependency {
+  depType: (typeof DEPENDENCY_TYPES)[number];
+  name: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * Return a copy of `packageJson` with every `workspace:` dependency replaced
+ * by a concrete range, using `versions` to look up workspace package
+ * versions.
+ */
+export function resolveWorkspaceDependencies(
+  packageJson: PackageJson,
+  versions: Map<string, string>,
+): { manifest: PackageJson; resolved: ResolvedDependency[] } {
+  const manifest: PackageJson = structuredClone(packageJson);
+  const resolved: ResolvedDependency[] = [];
+
+  for (const depType of DEPENDENCY_TYPES) {
+    const deps = manifest[depType];
+    if (!deps) continue;
+
+    for (const [name, spec] of Object.entries(deps)) {
+      if (!isWorkspaceSpec(spec)) continue;
+
+      const version = versions.get(name);
+      if (!version) {
+        throw new Error(
+          `${packageJson.name} depends on ${name}@${spec}, but ${name} is not a workspace package`,
+        );
+      }
+
+      const to = resolveWorkspaceSpec(spec, version);
+      deps[name] = to;
+      resolved.push({ depType, name, from: spec, to });
+    }
+  }
+
+  return { manifest, resolved };
+}